@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../TransferToMenson.sol";
+
+// Stand-in for the Meson contract, for tests only.
+// Records every postSwapFromContract call and, like Meson, pulls ERC20
+// tokens from the calling contract using the allowance it was given.
+contract MockMeson is IMesonMinimal {
+    struct PostedSwap {
+        uint256 encodedSwap;
+        uint200 postingValue;
+        address fromContract;
+        uint256 value;          // Native tokens sent with the call
+        uint256 pulled;         // ERC20 tokens pulled from fromContract
+    }
+
+    mapping(uint8 => address) private _tokens;
+    PostedSwap[] public postedSwaps;
+    string public rejectReason;     // Non-empty to make postSwapFromContract revert
+
+    event SwapPosted(uint256 encodedSwap, uint200 postingValue, address fromContract, uint256 value, uint256 pulled);
+
+    function setTokenForIndex(uint8 tokenIndex, address token) external {
+        _tokens[tokenIndex] = token;
+    }
+
+    function setRejectReason(string calldata reason) external {
+        rejectReason = reason;
+    }
+
+    function tokenForIndex(uint8 tokenIndex) external view returns (address) {
+        return _tokens[tokenIndex];
+    }
+
+    function postSwapFromContract(uint256 encodedSwap, uint200 postingValue, address fromContract)
+        payable external
+    {
+        require(bytes(rejectReason).length == 0, rejectReason);
+
+        address token = _tokens[uint8(encodedSwap)];
+        uint256 pulled;
+        if (token != address(0) && token != address(0x1)) {
+            pulled = IERC20(token).allowance(fromContract, address(this));
+            IERC20(token).transferFrom(fromContract, address(this), pulled);
+        }
+
+        postedSwaps.push(PostedSwap(encodedSwap, postingValue, fromContract, msg.value, pulled));
+        emit SwapPosted(encodedSwap, postingValue, fromContract, msg.value, pulled);
+    }
+
+    function postedSwapCount() external view returns (uint256) {
+        return postedSwaps.length;
+    }
+}
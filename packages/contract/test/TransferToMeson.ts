@@ -0,0 +1,169 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+// Meson token indexes used by the fixture
+const USDC_INDEX = 1; // 6 decimals
+const WBTC_INDEX = 2; // 8 decimals
+const DAI_INDEX = 3; // 18 decimals
+const NATIVE_INDEX = 0x34; // Core token, resolved to address(0x1)
+const UNSUPPORTED_INDEX = 0x40; // No token configured
+
+// Builds an encoded swap holding `amount` (6 decimals) of token `tokenIndex`.
+// Only the fields read by TransferToMesonContract matter here.
+function encodeSwap(amount: bigint, tokenIndex: number): bigint {
+  const version = 1n;
+  const expireTs = 1_900_000_000n;
+  const outChain = 0x02can;
+  const inChain = 0x003cn;
+  return (
+    (version << 248n) |
+    (amount << 208n) |
+    (expireTs << 48n) |
+    (outChain << 32n) |
+    (BigInt(USDC_INDEX) << 24n) |
+    (inChain << 8n) |
+    BigInt(tokenIndex)
+  );
+}
+
+describe("TransferToMesonContract", function () {
+  async function deployTransferToMesonFixture() {
+    const [user, initiator] = await hre.ethers.getSigners();
+
+    const meson = await hre.ethers.deployContract("MockMeson");
+
+    const usdc = await hre.ethers.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+    const wbtc = await hre.ethers.deployContract("MockERC20", ["Wrapped BTC", "WBTC", 8]);
+    const dai = await hre.ethers.deployContract("MockERC20", ["Dai", "DAI", 18]);
+
+    await meson.setTokenForIndex(USDC_INDEX, usdc.target);
+    await meson.setTokenForIndex(WBTC_INDEX, wbtc.target);
+    await meson.setTokenForIndex(DAI_INDEX, dai.target);
+    await meson.setTokenForIndex(NATIVE_INDEX, "0x0000000000000000000000000000000000000001");
+
+    const transfer = await hre.ethers.deployContract("TransferToMesonContract", [meson.target]);
+
+    return { meson, usdc, wbtc, dai, transfer, user, initiator };
+  }
+
+  describe("Validations", function () {
+    it("Should revert for a token index Meson does not support", async function () {
+      const { transfer, initiator } = await loadFixture(deployTransferToMesonFixture);
+
+      await expect(
+        transfer.transferToMeson(encodeSwap(1_000_000n, UNSUPPORTED_INDEX), initiator.address)
+      ).to.be.revertedWith("Unsupported token");
+    });
+
+    it("Should revert if the native value does not match the amount", async function () {
+      const { transfer, initiator } = await loadFixture(deployTransferToMesonFixture);
+      const encoded = encodeSwap(1_500_000n, NATIVE_INDEX);
+
+      await expect(
+        transfer.transferToMeson(encoded, initiator.address, { value: hre.ethers.parseEther("1.4") })
+      ).to.be.revertedWith("Tx value does not match the amount");
+
+      await expect(
+        transfer.transferToMeson(encoded, initiator.address)
+      ).to.be.revertedWith("Tx value does not match the amount");
+    });
+
+    it("Should revert if the amount cannot be represented with fewer than 6 decimals", async function () {
+      const { meson, transfer, user, initiator } = await loadFixture(deployTransferToMesonFixture);
+
+      // A 2-decimal token can only hold amounts that are multiples of 10^4 in Meson units
+      const cents = await hre.ethers.deployContract("MockERC20", ["Cents", "CNT", 2]);
+      await meson.setTokenForIndex(0x20, cents.target);
+      await cents.mint(user.address, 1_000_000n);
+      await cents.approve(transfer.target, 1_000_000n);
+
+      await expect(
+        transfer.transferToMeson(encodeSwap(1_234_567n, 0x20), initiator.address)
+      ).to.be.revertedWith("Decimals overflow");
+
+      // 12.34 is representable: 12_340_000 Meson units -> 1_234 token units
+      await expect(
+        transfer.transferToMeson(encodeSwap(12_340_000n, 0x20), initiator.address)
+      ).to.changeTokenBalances(cents, [user, meson], [-1_234n, 1_234n]);
+    });
+
+    it("Should revert if the contract was not approved to pull the tokens", async function () {
+      const { usdc, transfer, user, initiator } = await loadFixture(deployTransferToMesonFixture);
+      await usdc.mint(user.address, 100_000_000n);
+
+      await expect(
+        transfer.transferToMeson(encodeSwap(100_000_000n, USDC_INDEX), initiator.address)
+      ).to.be.revertedWithCustomError(usdc, "ERC20InsufficientAllowance");
+    });
+  });
+
+  describe("Native tokens", function () {
+    it("Should forward the value converted to 18 decimals", async function () {
+      const { meson, transfer, user, initiator } = await loadFixture(deployTransferToMesonFixture);
+      const value = hre.ethers.parseEther("1.5");
+
+      await expect(
+        transfer.transferToMeson(encodeSwap(1_500_000n, NATIVE_INDEX), initiator.address, { value })
+      ).to.changeEtherBalances([user, transfer, meson], [-value, 0n, value]);
+
+      const posted = await meson.postedSwaps(0);
+      expect(posted.value).to.equal(value);
+      expect(posted.pulled).to.equal(0n);
+    });
+  });
+
+  describe("ERC20 tokens", function () {
+    for (const { symbol, index, decimals } of [
+      { symbol: "usdc", index: USDC_INDEX, decimals: 6 },
+      { symbol: "wbtc", index: WBTC_INDEX, decimals: 8 },
+      { symbol: "dai", index: DAI_INDEX, decimals: 18 },
+    ] as const) {
+      it(`Should pull and approve the amount for a token with ${decimals} decimals`, async function () {
+        const fixture = await loadFixture(deployTransferToMesonFixture);
+        const { meson, transfer, user, initiator } = fixture;
+        const token = fixture[symbol];
+
+        // 25.5 in Meson's 6 decimals
+        const amount = hre.ethers.parseUnits("25.5", decimals);
+        await token.mint(user.address, amount * 2n);
+        await token.approve(transfer.target, amount);
+
+        await expect(
+          transfer.transferToMeson(encodeSwap(25_500_000n, index), initiator.address)
+        ).to.changeTokenBalances(token, [user, transfer, meson], [-amount, 0n, amount]);
+
+        // The whole approval was used: nothing is left for Meson or the contract
+        expect(await token.allowance(user.address, transfer.target)).to.equal(0n);
+        expect(await token.allowance(transfer.target, meson.target)).to.equal(0n);
+
+        const posted = await meson.postedSwaps(0);
+        expect(posted.pulled).to.equal(amount);
+        expect(posted.value).to.equal(0n);
+      });
+    }
+  });
+
+  describe("Posting", function () {
+    it("Should post the encoded swap with the initiator packed into postingValue", async function () {
+      const { meson, usdc, transfer, user, initiator } = await loadFixture(deployTransferToMesonFixture);
+      const encoded = encodeSwap(10_000_000n, USDC_INDEX);
+      await usdc.mint(user.address, 10_000_000n);
+      await usdc.approve(transfer.target, 10_000_000n);
+
+      const postingValue = (BigInt(initiator.address) << 40n) + 1n;
+
+      await expect(transfer.transferToMeson(encoded, initiator.address))
+        .to.emit(meson, "SwapPosted")
+        .withArgs(encoded, postingValue, transfer.target, 0n, 10_000_000n);
+
+      expect(await meson.postedSwapCount()).to.equal(1n);
+      const posted = await meson.postedSwaps(0);
+      expect(posted.encodedSwap).to.equal(encoded);
+      expect(posted.fromContract).to.equal(transfer.target);
+      // The initiator sits above the 40-bit pool index, which is always 1
+      expect(posted.postingValue >> 40n).to.equal(BigInt(initiator.address));
+      expect(posted.postingValue & 0xffffffffffn).to.equal(1n);
+    });
+  });
+});
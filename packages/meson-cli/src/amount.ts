@@ -0,0 +1,137 @@
+import { ValidationError, MesonApiError } from './errors';
+
+// Meson encodes every amount and fee with 6 decimals
+export const MESON_DECIMALS = 6;
+
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d*))?$/;
+// Numbers as the relayer may send them, e.g. 0.25, .25 or 1e-7
+const RELAYER_NUMBER_PATTERN = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+const SCALE = BigInt(10) ** BigInt(MESON_DECIMALS);
+
+/**
+ * A non-negative amount with Meson's 6-decimal precision, held as an integer
+ *
+ * Amounts, fees and limits are parsed into this type instead of floats, so
+ * comparisons and differences are exact. Parsing rejects amounts with more
+ * precision than a Meson swap can encode.
+ */
+export class MesonAmount {
+  readonly units: bigint;  // Amount with 6 decimals, as in an encoded swap
+
+  private constructor(units: bigint) {
+    this.units = units;
+  }
+
+  /**
+   * Parses a decimal amount such as `100` or `0.25`
+   *
+   * @param value The amount as a decimal string
+   * @param label Name of the value in error messages (e.g., Amount, Fee)
+   * @throws ValidationError if the value is not a plain decimal or is finer than 6 decimals
+   */
+  static parse(value: string, label = 'Amount'): MesonAmount {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match) {
+      throw new ValidationError(`${label} '${value}' is not a valid decimal number.`);
+    }
+
+    const [, whole, fraction = ''] = match;
+    const significant = fraction.replace(/0+$/, '');
+    if (significant.length > MESON_DECIMALS) {
+      throw new ValidationError(
+        `${label} ${value} has more than ${MESON_DECIMALS} decimals, the precision of Meson swaps.`
+      );
+    }
+    return new MesonAmount(BigInt(whole) * SCALE + BigInt(significant.padEnd(MESON_DECIMALS, '0')));
+  }
+
+  /**
+   * Parses an amount reported by the relayer, such as a swap limit or a fee
+   *
+   * Unlike `parse`, exponent form is accepted and finer precision is rounded
+   * to 6 decimals, in the direction that keeps checks on the safe side.
+   *
+   * @param value The amount as the relayer sent it
+   * @param label Name of the value in error messages (e.g., Fee)
+   * @param rounding Round finer precision up (fees, minimums) or down (maximums)
+   * @throws MesonApiError if the value is not a non-negative number
+   */
+  static fromRelayer(value: string | number, label: string, rounding: 'up' | 'down' = 'up'): MesonAmount {
+    const match = RELAYER_NUMBER_PATTERN.exec(String(value).trim());
+    if (!match || !(match[1] || match[2])) {
+      throw new MesonApiError(`The Meson API returned an invalid ${label.toLowerCase()}: '${value}'.`);
+    }
+
+    const [, whole, fraction = '', exponent = '0'] = match;
+    // Digits with the decimal point dropped, and where the point goes relative to 6 decimals
+    const digits = BigInt(`${whole}${fraction}` || '0');
+    const shift = Number(exponent) - fraction.length + MESON_DECIMALS;
+    if (shift >= 0) {
+      return new MesonAmount(digits * BigInt(10) ** BigInt(shift));
+    }
+
+    const divisor = BigInt(10) ** BigInt(-shift);
+    const roundUp = rounding === 'up' && digits % divisor !== BigInt(0);
+    return new MesonAmount(digits / divisor + (roundUp ? BigInt(1) : BigInt(0)));
+  }
+
+  /**
+   * Wraps an amount already in 6-decimal units, e.g. from an encoded swap
+   */
+  static fromUnits(units: bigint): MesonAmount {
+    if (units < BigInt(0)) {
+      throw new ValidationError(`Amount cannot be negative (${units} units).`);
+    }
+    return new MesonAmount(units);
+  }
+
+  /**
+   * Converts the amount to the smallest unit of a token with the given decimals
+   *
+   * @throws ValidationError if the token has fewer decimals than the amount needs
+   */
+  toTokenUnits(decimals: number): bigint {
+    if (decimals >= MESON_DECIMALS) {
+      return this.units * BigInt(10) ** BigInt(decimals - MESON_DECIMALS);
+    }
+
+    const divisor = BigInt(10) ** BigInt(MESON_DECIMALS - decimals);
+    if (this.units % divisor !== BigInt(0)) {
+      throw new ValidationError(`Amount ${this} cannot be represented with ${decimals} decimals.`);
+    }
+    return this.units / divisor;
+  }
+
+  /**
+   * Subtracts another amount
+   *
+   * @throws ValidationError if the result would be negative
+   */
+  sub(other: MesonAmount): MesonAmount {
+    return MesonAmount.fromUnits(this.units - other.units);
+  }
+
+  /**
+   * Compares with another amount: negative if lower, 0 if equal, positive if higher
+   */
+  cmp(other: MesonAmount): number {
+    return this.units < other.units ? -1 : this.units > other.units ? 1 : 0;
+  }
+
+  isZero(): boolean {
+    return this.units === BigInt(0);
+  }
+
+  /**
+   * Formats the amount without trailing zeros (e.g., 100, 0.25)
+   */
+  toString(): string {
+    const whole = this.units / SCALE;
+    const fraction = (this.units % SCALE).toString().padStart(MESON_DECIMALS, '0').replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole.toString();
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
@@ -1,16 +1,54 @@
-import axios from 'axios';
-import { Chain, ChainLimit, EncodeSwapResult, MesonApiResponse, SwapResult, EncodeSwapParams } from './types';
+import { ethers } from 'ethers';
+import { Chain, ChainLimit, EncodeSwapResult, SwapResult, EncodeSwapParams, SwapStatus, MesonApiOptions } from './types';
+import { HttpTransport, parseProxy } from './transport';
+import { MesonAmount } from './amount';
+import { ValidationError } from './errors';
 
 // Constants
-const MESON_API_URL = 'https://relayer.meson.fi/api/v1';
+export const MESON_API_URL = 'https://relayer.meson.fi/api/v1';
+const API_KEY_HEADER = 'X-API-Key';
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
 
 // API service
 export class MesonApiService {
   // Debug mode flag
   private debug: boolean;
+  // Relayer API base URL
+  private baseUrl: string;
+  // Whether swap submissions may be retried on transient failures
+  private retrySubmit: boolean;
+  // Shared transport used by every endpoint
+  private transport: HttpTransport;
 
-  constructor(debug = false) {
+  constructor(debug = false, options: MesonApiOptions = {}) {
     this.debug = debug;
+    this.baseUrl = (options.baseUrl || MESON_API_URL).replace(/\/+$/, '');
+    this.retrySubmit = !!options.retrySubmit;
+    
+    const headers = { ...options.headers };
+    if (options.apiKey) {
+      headers[API_KEY_HEADER] = options.apiKey;
+    }
+    
+    this.transport = new HttpTransport({
+      baseUrl: this.baseUrl,
+      headers,
+      proxy: options.proxy ? parseProxy(options.proxy) : undefined,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+      retryMaxDelayMs: options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+      redactHeaders: [API_KEY_HEADER],
+      log: (message, data) => this.log(message, data)
+    });
+  }
+
+  // Relayer API base URL used by this service
+  getBaseUrl(): string {
+    return this.baseUrl;
   }
 
   // Log debug message if debug mode is enabled
@@ -29,97 +67,45 @@ export class MesonApiService {
   async getSupportedChains(): Promise<Chain[]> {
     this.log('Fetching supported chains and tokens...');
     
-    const url = `${MESON_API_URL}/list`;
-    const config = {
-      method: 'get',
-      url,
-      headers: { 
-        'Accept': 'application/json'
-      }
-    };
-    
-    this.log('Request config:', config);
+    const result = await this.transport.request<Chain[]>(
+      { method: 'get', path: '/list' },
+      'fetching supported chains'
+    );
     
-    try {
-      const response = await axios(config);
-      
-      this.log('Response data:', response.data);
-      
-      if (response.data.result) {
-        this.log(`Received ${response.data.result.length} supported chains`);
-        return response.data.result;
-      } else if (response.data.error) {
-        throw new Error(`Error fetching supported chains: ${response.data.error.message}`);
-      } else {
-        throw new Error('Invalid response format from Meson API');
-      }
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.log(`API Error: ${error.message}`);
-        if (error.response) {
-          this.log(`Status: ${error.response.status}, Data:`, error.response.data);
-        }
-      }
-      throw error;
-    }
+    this.log(`Received ${result.length} supported chains`);
+    return result;
   }
 
   // Fetch swap limits
   async getSwapLimits(): Promise<ChainLimit[]> {
     this.log('Fetching swap limits...');
     
-    const url = `${MESON_API_URL}/limits`;
-    const config = {
-      method: 'get',
-      url,
-      headers: { 
-        'Accept': 'application/json'
-      }
-    };
+    const result = await this.transport.request<ChainLimit[]>(
+      { method: 'get', path: '/limits' },
+      'fetching swap limits'
+    );
     
-    this.log('Request config:', config);
-    
-    try {
-      const response = await axios(config);
-      
-      this.log('Response data:', response.data);
-      
-      if (response.data.result) {
-        this.log(`Received limits for ${response.data.result.length} chains`);
-        return response.data.result;
-      } else if (response.data.error) {
-        throw new Error(`Error fetching swap limits: ${response.data.error.message}`);
-      } else {
-        throw new Error('Invalid response format from Meson API');
-      }
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.log(`API Error: ${error.message}`);
-        if (error.response) {
-          this.log(`Status: ${error.response.status}, Data:`, error.response.data);
-        }
-      }
-      throw error;
-    }
+    this.log(`Received limits for ${result.length} chains`);
+    return result;
   }
 
-  // Encode a swap
+  // Encode a swap; amounts finer than Meson's 6 decimals are rejected before the request
   async encodeSwap(
     fromChainToken: string,
     toChainToken: string,
-    amount: string,
+    amount: string | MesonAmount,
     fromAddress: string,
     recipient: string,
     fromContract?: boolean,
     dataToContract?: string
   ): Promise<EncodeSwapResult> {
-    this.log(`Encoding swap: ${amount} ${fromChainToken} -> ${toChainToken} for ${recipient}`);
+    const swapAmount = typeof amount === 'string' ? MesonAmount.parse(amount) : amount;
+    this.log(`Encoding swap: ${swapAmount} ${fromChainToken} -> ${toChainToken} for ${recipient}`);
     
-    const url = `${MESON_API_URL}/swap`;
     const payload: EncodeSwapParams = {
       from: fromChainToken,
       to: toChainToken,
-      amount,
+      amount: swapAmount.toString(),
       fromAddress,
       recipient
     };
@@ -133,44 +119,14 @@ export class MesonApiService {
       payload.dataToContract = dataToContract;
     }
     
-    const data = JSON.stringify(payload);
+    // Encoding has no side effects on the relayer, so it is safe to retry
+    const result = await this.transport.request<EncodeSwapResult>(
+      { method: 'post', path: '/swap', body: payload, retry: true },
+      'encoding swap'
+    );
     
-    const config = {
-      method: 'post',
-      maxBodyLength: Infinity,
-      url,
-      headers: { 
-        'Content-Type': 'application/json', 
-        'Accept': 'application/json'
-      },
-      data
-    };
-    
-    this.log('Request config:', config);
-    this.log('Request payload:', JSON.parse(data));
-    
-    try {
-      const response = await axios(config);
-      
-      this.log('Response data:', response.data);
-      
-      if (response.data.result) {
-        this.log('Successfully encoded swap');
-        return response.data.result;
-      } else if (response.data.error) {
-        throw new Error(`Error encoding swap: ${response.data.error.message}`);
-      } else {
-        throw new Error('Invalid response format from Meson API');
-      }
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.log(`API Error: ${error.message}`);
-        if (error.response) {
-          this.log(`Status: ${error.response.status}, Data:`, error.response.data);
-        }
-      }
-      throw error;
-    }
+    this.log('Successfully encoded swap');
+    return result;
   }
 
   // Submit encoded swap with signature (EOA flow)
@@ -182,53 +138,18 @@ export class MesonApiService {
   ): Promise<SwapResult> {
     this.log(`Submitting swap: ${encodedSwap}`);
     
-    const url = `${MESON_API_URL}/swap/${encodedSwap}`;
-    const data = JSON.stringify({
-      fromAddress,
-      recipient,
-      signature
-    });
-    
-    const config = {
-      method: 'post',
-      maxBodyLength: Infinity,
-      url,
-      headers: { 
-        'Content-Type': 'application/json', 
-        'Accept': 'application/json'
+    const result = await this.transport.request<SwapResult>(
+      {
+        method: 'post',
+        path: `/swap/${swapPathSegment(encodedSwap, 'encoded swap')}`,
+        body: { fromAddress, recipient, signature },
+        retry: this.retrySubmit
       },
-      data
-    };
-    
-    this.log('Request config:', config);
-    this.log('Request payload:', JSON.parse(data));
+      'submitting swap'
+    );
     
-    try {
-      const response = await axios(config);
-      
-      this.log('Response data:', response.data);
-      
-      if (response.data.result) {
-        this.log(`Successfully submitted swap. Swap ID: ${response.data.result.swapId}`);
-        return response.data.result;
-      } else if (response.data.error) {
-        throw new Error(`Error submitting swap: ${response.data.error.message}`);
-      } else {
-        throw new Error('Invalid response format from Meson API');
-      }
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.log(`API Error: ${error.message}`);
-        if (error.response) {
-          this.log(`Status: ${error.response.status}, Data:`, error.response.data);
-        } else {
-          this.log('Error details:', error);
-        }
-      } else {
-        this.log('Unknown error:', error);
-      }
-      throw error;
-    }
+    this.log(`Successfully submitted swap. Swap ID: ${result.swapId}`);
+    return result;
   }
   
   // Submit swap from smart contract (Contract flow)
@@ -238,50 +159,41 @@ export class MesonApiService {
   ): Promise<SwapResult> {
     this.log(`Submitting contract swap: ${encodedSwap} with tx hash: ${transactionHash}`);
     
-    const url = `${MESON_API_URL}/swap/from-contract/${encodedSwap}`;
-    const data = JSON.stringify({
-      hash: transactionHash
-    });
-    
-    const config = {
-      method: 'post',
-      maxBodyLength: Infinity,
-      url,
-      headers: { 
-        'Content-Type': 'application/json', 
-        'Accept': 'application/json'
+    const result = await this.transport.request<SwapResult>(
+      {
+        method: 'post',
+        path: `/swap/from-contract/${swapPathSegment(encodedSwap, 'encoded swap')}`,
+        body: { hash: transactionHash },
+        retry: this.retrySubmit
       },
-      data
-    };
+      'submitting contract swap'
+    );
     
-    this.log('Request config:', config);
-    this.log('Request payload:', JSON.parse(data));
+    this.log(`Successfully submitted contract swap. Swap ID: ${result.swapId}`);
+    return result;
+  }
+
+  // Fetch the status of a swap by swap ID or encoded swap
+  async getSwapStatus(swapIdOrEncoded: string): Promise<SwapStatus> {
+    this.log(`Fetching swap status: ${swapIdOrEncoded}`);
     
-    try {
-      const response = await axios(config);
-      
-      this.log('Response data:', response.data);
-      
-      if (response.data.result) {
-        this.log(`Successfully submitted contract swap. Swap ID: ${response.data.result.swapId}`);
-        return response.data.result;
-      } else if (response.data.error) {
-        throw new Error(`Error submitting contract swap: ${response.data.error.message}`);
-      } else {
-        throw new Error('Invalid response format from Meson API');
-      }
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.log(`API Error: ${error.message}`);
-        if (error.response) {
-          this.log(`Status: ${error.response.status}, Data:`, error.response.data);
-        } else {
-          this.log('Error details:', error);
-        }
-      } else {
-        this.log('Unknown error:', error);
-      }
-      throw error;
-    }
+    const result = await this.transport.request<SwapStatus>(
+      { method: 'get', path: `/swap/${swapPathSegment(swapIdOrEncoded, 'swap ID or encoded swap')}` },
+      'fetching swap status'
+    );
+    
+    this.log(`Received status for swap ${result.swapId} with ${(result.events || []).length} events`);
+    return { ...result, events: result.events || [] };
+  }
+}
+
+/**
+ * Checks that a swap ID or encoded swap is a 32-byte hex string before it is
+ * put in a request path, so user input cannot reach another endpoint
+ */
+function swapPathSegment(value: string, label: string): string {
+  if (!ethers.isHexString(value, 32)) {
+    throw new ValidationError(`Invalid ${label} '${value}'. Expected a 0x-prefixed 32-byte hex string.`);
   }
-} 
\ No newline at end of file
+  return value;
+}
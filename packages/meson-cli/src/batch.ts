@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ValidationError } from './errors';
+import { ErrorShape } from './output';
+
+// Manifest columns every row must provide
+const REQUIRED_COLUMNS = ['from', 'to', 'amount', 'recipient'] as const;
+
+/**
+ * One transfer of a batch manifest
+ */
+export interface BatchRow {
+  row: number;        // 1-based position in the manifest (excluding the CSV header)
+  id?: string;        // Optional reference from the manifest, copied to the report
+  from: string;       // Source chain:token
+  to: string;         // Destination chain:token
+  amount: string;
+  recipient: string;
+}
+
+// submitted: accepted by the relayer; pending: signed, submission not confirmed yet
+export type BatchRowStatus = 'submitted' | 'pending' | 'failed' | 'dry-run';
+
+export interface BatchRowResult extends BatchRow {
+  status: BatchRowStatus;
+  swapId?: string;
+  encoded?: string;
+  signature?: string;
+  fromAddress?: string;   // Address the swap was signed by, which it must be submitted with
+  explorerUrl?: string;
+  error?: ErrorShape;
+  updatedAt: string;
+}
+
+export interface BatchReport {
+  manifest: string;
+  updatedAt: string;
+  rows: BatchRowResult[];
+}
+
+/**
+ * Splits one CSV line into fields, honoring double-quoted fields
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+/**
+ * Reads manifest records from a CSV file with a header line
+ */
+function readCsvRecords(content: string): Record<string, string>[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '' && !line.trim().startsWith('#'));
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase());
+  return lines.slice(1).map(line => {
+    const fields = parseCsvLine(line);
+    const record: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      record[header] = fields[i] ?? '';
+    });
+    return record;
+  });
+}
+
+/**
+ * Reads manifest records from a JSON array of objects
+ */
+function readJsonRecords(content: string, file: string): Record<string, string>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`Manifest ${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ValidationError(`Manifest ${file} must contain a JSON array of rows.`);
+  }
+
+  return parsed.map(entry => {
+    const record: Record<string, string> = {};
+    for (const [key, value] of Object.entries(entry ?? {})) {
+      record[key.toLowerCase()] = value === undefined || value === null ? '' : String(value).trim();
+    }
+    return record;
+  });
+}
+
+/**
+ * Loads a batch manifest
+ *
+ * Files ending in `.json` are read as an array of objects; anything else as
+ * CSV with a header line. Both need `from`, `to`, `amount` and `recipient`
+ * columns and may add an `id` column to identify rows in the report.
+ * Recipients are checked against their destination chain by `MesonBridgeClient.validate()`.
+ *
+ * @param file Path to the manifest
+ * @returns The manifest rows
+ */
+export function loadManifest(file: string): BatchRow[] {
+  if (!fs.existsSync(file)) {
+    throw new ValidationError(`Manifest file '${file}' does not exist.`);
+  }
+
+  const content = fs.readFileSync(file, 'utf8');
+  const records = path.extname(file).toLowerCase() === '.json'
+    ? readJsonRecords(content, file)
+    : readCsvRecords(content);
+
+  if (records.length === 0) {
+    throw new ValidationError(`Manifest ${file} does not contain any rows.`);
+  }
+
+  const problems: string[] = [];
+  const rows = records.map((record, i) => {
+    const row = i + 1;
+    const missing = REQUIRED_COLUMNS.filter(column => !record[column]);
+    if (missing.length > 0) {
+      problems.push(`row ${row}: missing ${missing.join(', ')}`);
+    }
+
+    return {
+      row,
+      id: record.id || undefined,
+      from: record.from,
+      to: record.to,
+      amount: record.amount,
+      recipient: record.recipient
+    };
+  });
+
+  if (problems.length > 0) {
+    throw new ValidationError(`Invalid manifest ${file}: ${problems.join('; ')}`);
+  }
+
+  return rows;
+}
+
+/**
+ * Default report path for a manifest: `payouts.csv` -> `payouts.report.json`
+ */
+export function defaultReportPath(manifest: string): string {
+  const ext = path.extname(manifest);
+  return path.join(path.dirname(manifest), `${path.basename(manifest, ext)}.report.json`);
+}
+
+/**
+ * Whether a report entry belongs to the same manifest row
+ */
+export function sameRow(a: BatchRow, b: BatchRow): boolean {
+  return a.row === b.row
+    && a.from === b.from
+    && a.to === b.to
+    && a.amount === b.amount
+    && a.recipient.toLowerCase() === b.recipient.toLowerCase();
+}
+
+/**
+ * Reads a previous report, or returns undefined if there is none
+ */
+export function readReport(file: string): BatchReport | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  try {
+    const report = JSON.parse(fs.readFileSync(file, 'utf8')) as BatchReport;
+    if (!Array.isArray(report.rows)) {
+      throw new Error('missing rows');
+    }
+    return report;
+  } catch (error) {
+    throw new ValidationError(`Report ${file} cannot be read: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+}
+
+/**
+ * Per-row report that is rewritten after every change, so a crash leaves
+ * the last known state of each row on disk
+ */
+export class BatchReportWriter {
+  private file: string;
+  private manifest: string;
+  private rows = new Map<number, BatchRowResult>();
+
+  constructor(file: string, manifest: string, previous?: BatchReport) {
+    this.file = file;
+    this.manifest = manifest;
+    for (const row of previous?.rows ?? []) {
+      this.rows.set(row.row, row);
+    }
+  }
+
+  // Result recorded for a manifest row, if it is for the same transfer
+  get(row: BatchRow): BatchRowResult | undefined {
+    const result = this.rows.get(row.row);
+    return result && sameRow(result, row) ? result : undefined;
+  }
+
+  update(row: BatchRow, result: Omit<BatchRowResult, keyof BatchRow | 'updatedAt'>): BatchRowResult {
+    const entry: BatchRowResult = { ...row, ...result, updatedAt: new Date().toISOString() };
+    this.rows.set(row.row, entry);
+    this.flush();
+    return entry;
+  }
+
+  private flush(): void {
+    const report: BatchReport = {
+      manifest: this.manifest,
+      updatedAt: new Date().toISOString(),
+      rows: Array.from(this.rows.values()).sort((a, b) => a.row - b.row)
+    };
+
+    // Write to a temporary file first so the report is never left half-written
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(report, null, 2) + '\n');
+    fs.renameSync(tmp, this.file);
+  }
+}
+
+/**
+ * Runs a task for every item with at most `concurrency` tasks in flight
+ *
+ * @param items Items to process
+ * @param concurrency Maximum number of concurrent tasks
+ * @param task Task to run for each item; it should not throw
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
@@ -0,0 +1,1465 @@
+#!/usr/bin/env node
+import { Command } from 'commander';
+import * as dotenv from 'dotenv';
+import { MesonApiService } from './api';
+import { BridgeOptions } from './types';
+import { MesonContractService, findContractAddress, predictTransferToMesonAddress, isTransferToMesonCode } from './contract';
+import * as fs from 'fs';
+import { resolveSwapState, exitCodeForState, watchSwapStatus, STATUS_EXIT_CODES, SwapState } from './status';
+import { SwapStatus } from './types';
+import { ValidationError, MesonApiError, NetworkError, SwapExpiredError, EXIT_CODES, exitCodeFor } from './errors';
+import { isRetryableStatus } from './transport';
+import { listChains, listTokens, DiscoveryFilters } from './discovery';
+import { formatTable, formatCsv } from './format';
+import { Output, serializeError } from './output';
+import {
+  decodeEncodedSwap,
+  formatMesonAmount,
+  formatCode,
+  chainIdsForCode,
+  tokenIdsForIndex
+} from './encoded-swap';
+import { resolveApiConfig, resolveRpcUrl, rpcUrlEnvVar, explorerSwapUrl, NetworkOptions, ApiConfig, NETWORKS } from './config';
+import { createSigner, DEFAULT_HD_PATH, SignerOptions, MesonSigner } from './signers';
+import {
+  loadManifest,
+  readReport,
+  defaultReportPath,
+  runWithConcurrency,
+  BatchReportWriter,
+  BatchRow,
+  BatchRowResult
+} from './batch';
+import { MesonBridgeClient, MesonBridgeClientOptions, SwapRequest, SwapConfirmation } from './client';
+import { promptSwapRequest, confirmSwap } from './wizard';
+import { isInteractive } from './prompt';
+import { SwapLedger, LedgerEntry, LedgerState, LEDGER_STATES, filterLedger, isSettledEntry, parseLedgerDate, resolveLedgerPath } from './ledger';
+import { ContractRegistry, RegistryEntry, resolveRegistryPath } from './registry';
+import { parseGasOptions, GasCliOptions, DEFAULT_GAS_LIMIT_MULTIPLIER } from './gas';
+import { parseFeeLimits, FeeCliOptions } from './fees';
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Create the CLI program
+const program = new Command();
+
+// Output writer, created on first use from the global output options
+let output: Output | undefined;
+
+// Configure program metadata
+program
+  .name('meson-cli')
+  .description('CLI to interact with MesonFi cross-chain bridge')
+  .version('1.0.0')
+  .option('--network <name>', `Meson network to use (${Object.keys(NETWORKS).join(', ')}; can also be set via MESON_NETWORK env var)`)
+  .option('--api-url <url>', 'Relayer API base URL (can also be set via MESON_API_URL env var)')
+  .option('--explorer-url <url>', 'Meson Explorer base URL (can also be set via MESON_EXPLORER_URL env var)')
+  .option('--api-key <key>', 'Relayer API key (can also be set via MESON_API_KEY env var)')
+  .option('--header <name:value>', 'Extra header to send with relayer requests (repeatable)', collect, [])
+  .option('--proxy <url>', 'HTTP proxy for relayer requests (can also be set via MESON_PROXY env var)')
+  .option('--request-timeout <ms>', 'Relayer request timeout in milliseconds (can also be set via MESON_REQUEST_TIMEOUT env var)')
+  .option('--retries <n>', 'Retries for idempotent relayer requests (can also be set via MESON_RETRIES env var)')
+  .option('--retry-submit', 'Also retry swap submissions on transient relayer failures', false)
+  .option('--ledger <path>', 'Swap ledger file (can also be set via MESON_LEDGER env var; defaults to ~/.meson-cli/ledger.json)')
+  .option('--registry <path>', 'TransferToMeson contract registry (can also be set via MESON_REGISTRY env var; defaults to ~/.meson-cli/contracts.json)')
+  .option('--json', 'Suppress progress output and write one JSON result object to stdout', false)
+  .option('--ndjson', 'Suppress progress output and stream step events as newline-delimited JSON', false);
+
+// Bridge command
+program
+  .command('bridge')
+  .description('Bridge tokens between chains using MesonFi')
+  .option('--from <chain:token>', 'Source chain and token (e.g., eth:usdc)')
+  .option('--to <chain:token>', 'Destination chain and token (e.g., bsc:usdc)')
+  .option('--amount <value>', 'Amount to bridge')
+  .option('--recipient <address>', 'Recipient address on the destination chain')
+  .option('-i, --interactive', 'Prompt for the route, amount and recipient, and confirm the fee before signing (default when no route options are given on a terminal)', false)
+  .option('--rpc-url <url>', 'RPC URL for the source chain, used to check the balance before encoding (can also be set via MESON_RPC_URL_<CHAIN> env var)')
+  .option('--max-fee <amount>', 'Abort if the relayer\'s total fee is higher than this, in source token units')
+  .option('--max-fee-percent <pct>', 'Abort if the relayer\'s total fee is a higher percentage of the amount than this')
+  .option('-y, --yes', 'Do not ask for confirmation before signing or sending on a terminal', false)
+  .option('--private-key <key>', 'Private key for signing (can also be set via PRIVATE_KEY env var)')
+  .option('--signer <spec>', 'Signer to use instead of a private key: keystore:<path>, mnemonic or remote:<url>')
+  .option('--password-file <path>', 'File containing the keystore password (can also be set via KEYSTORE_PASSWORD env var)')
+  .option('--hd-path <path>', `Derivation path for --signer mnemonic ({index} is replaced with --hd-index)`, DEFAULT_HD_PATH)
+  .option('--hd-index <n>', 'Account index for --signer mnemonic', '0')
+  .option('--signer-address <address>', 'Account to use on a remote signer (defaults to its first account)')
+  .option('--dry-run', 'Execute all steps without submitting the final transaction', false)
+  .option('--no-verify-swap', 'Skip checking the relayer-encoded swap against the requested amount, chains, tokens and expiry')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: BridgeCommandOptions) => {
+    try {
+      await runBridge(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Contract Bridge command
+program
+  .command('bridge-contract')
+  .description('Bridge tokens between chains using MesonFi via the TransferToMeson contract')
+  .requiredOption('--from <chain:token>', 'Source chain and token (e.g., eth:usdc)')
+  .requiredOption('--to <chain:token>', 'Destination chain and token (e.g., bsc:usdc)')
+  .requiredOption('--amount <value>', 'Amount to bridge')
+  .requiredOption('--recipient <address>', 'Recipient address on the destination chain')
+  .option('--rpc-url <url>', 'RPC URL for the source chain (defaults to MESON_RPC_URL_<CHAIN> or a public endpoint)')
+  .option('--meson-contract <address>', 'Address of the Meson contract (will be looked up from the address field in chain data if not provided)')
+  .option('--transfer-contract <address>', 'Address of your deployed TransferToMeson contract (defaults to the one recorded in the contract registry)')
+  .option('--deploy-if-missing', 'Deploy your TransferToMeson contract through CREATE2 if none is provided or registered', false)
+  .option('--approve', 'Send an ERC20 approve transaction for the TransferToMeson contract if the allowance is insufficient', false)
+  .option('--gas-limit-multiplier <n>', 'Multiplier applied to the gas estimate of each transaction', String(DEFAULT_GAS_LIMIT_MULTIPLIER))
+  .option('--max-fee-per-gas <gwei>', 'EIP-1559 maximum fee per gas in gwei (defaults to the RPC endpoint\'s suggestion)')
+  .option('--max-priority-fee <gwei>', 'EIP-1559 maximum priority fee per gas in gwei (defaults to the RPC endpoint\'s suggestion)')
+  .option('--legacy-gas-price <gwei>', 'Send legacy (type 0) transactions at this gas price in gwei')
+  .option('--max-gas-cost <amount>', 'Abort if the estimated fees of the transactions to send add up to more than this, in native token units')
+  .option('--max-fee <amount>', 'Abort if the relayer\'s total fee is higher than this, in source token units')
+  .option('--max-fee-percent <pct>', 'Abort if the relayer\'s total fee is a higher percentage of the amount than this')
+  .option('-y, --yes', 'Do not ask for confirmation before signing or sending on a terminal', false)
+  .option('--private-key <key>', 'Private key for signing (can also be set via PRIVATE_KEY env var)')
+  .option('--signer <spec>', 'Signer to use instead of a private key: keystore:<path>, mnemonic or remote:<url>')
+  .option('--password-file <path>', 'File containing the keystore password (can also be set via KEYSTORE_PASSWORD env var)')
+  .option('--hd-path <path>', `Derivation path for --signer mnemonic ({index} is replaced with --hd-index)`, DEFAULT_HD_PATH)
+  .option('--hd-index <n>', 'Account index for --signer mnemonic', '0')
+  .option('--signer-address <address>', 'Account to use on a remote signer (defaults to its first account)')
+  .option('--dry-run', 'Execute all steps without submitting the final transaction', false)
+  .option('--no-verify-swap', 'Skip checking the relayer-encoded swap against the requested amount, chains, tokens and expiry')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: BridgeOptions & SignerOptions & GasCliOptions & FeeCliOptions & { 
+    mesonContract?: string,
+    transferContract?: string,
+    deployIfMissing?: boolean,
+    approve?: boolean,
+    rpcUrl?: string,
+    yes?: boolean
+  }) => {
+    try {
+      await runContractBridge(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Batch Bridge command
+program
+  .command('bridge-batch')
+  .description('Bridge tokens for every row of a CSV or JSON manifest')
+  .requiredOption('--file <path>', 'Manifest with from, to, amount and recipient columns (.csv or .json)')
+  .option('--concurrency <n>', 'Number of rows to encode, sign and submit at the same time', '4')
+  .option('--report <path>', 'Per-row result report (defaults to <manifest>.report.json)')
+  .option('--resume', 'Continue a previous run, skipping rows the report marks as submitted', false)
+  .option('--private-key <key>', 'Private key for signing (can also be set via PRIVATE_KEY env var)')
+  .option('--signer <spec>', 'Signer to use instead of a private key: keystore:<path>, mnemonic or remote:<url>')
+  .option('--password-file <path>', 'File containing the keystore password (can also be set via KEYSTORE_PASSWORD env var)')
+  .option('--hd-path <path>', `Derivation path for --signer mnemonic ({index} is replaced with --hd-index)`, DEFAULT_HD_PATH)
+  .option('--hd-index <n>', 'Account index for --signer mnemonic', '0')
+  .option('--signer-address <address>', 'Account to use on a remote signer (defaults to its first account)')
+  .option('--dry-run', 'Encode and sign every row without submitting', false)
+  .option('--no-verify-swap', 'Skip checking the relayer-encoded swaps against the manifest rows')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: BridgeBatchOptions) => {
+    try {
+      const exitCode = await runBridgeBatch(options);
+      process.exit(exitCode);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Submit Contract Swap command
+program
+  .command('submit-contract-swap')
+  .description('Notify the relayer of a mined TransferToMeson transaction')
+  .requiredOption('--encoded <hex>', 'Encoded swap used in the transferToMeson call')
+  .requiredOption('--hash <txhash>', 'Hash of the mined transferToMeson transaction')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: Pick<BridgeOptions, 'hash' | 'debug'> & { encoded: string }) => {
+    try {
+      await runSubmitContractSwap(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Status command
+program
+  .command('status')
+  .description('Show the status of a swap by swap ID or encoded swap')
+  .argument('<swapId|encoded>', 'Swap ID or encoded swap to look up')
+  .option('--watch', 'Poll until the swap is released, expired or cancelled', false)
+  .option('--interval <seconds>', 'Polling interval in seconds for --watch', '10')
+  .option('--timeout <seconds>', 'Maximum time in seconds to wait with --watch', '1800')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (swapIdOrEncoded: string, options: { watch?: boolean, interval: string, timeout: string, debug?: boolean }) => {
+    try {
+      const exitCode = await runStatus(swapIdOrEncoded, options);
+      process.exit(exitCode);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Quote command
+program
+  .command('quote')
+  .description('Estimate fees for one or more routes without a private key')
+  .requiredOption('--from <chain:token>', 'Source chain and token (e.g., eth:usdc)')
+  .option('--to <chain:token...>', 'Destination chain and token candidates (e.g., bsc:usdc arb:usdc)')
+  .option('--to-chain <pattern>', 'Destination pattern to compare, e.g. *:usdc for USDC on every chain')
+  .requiredOption('--amount <value>', 'Amount to bridge')
+  .option('--address <address>', 'Source address used for encoding the quote (defaults to a placeholder)')
+  .option('--recipient <address>', 'Recipient address used for encoding the quote (defaults to --address)')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: QuoteOptions) => {
+    try {
+      await runQuote(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Decode command
+program
+  .command('decode')
+  .description('Decode an encoded swap into its fields without contacting the relayer')
+  .argument('<encoded>', 'Encoded swap (32-byte hex)')
+  .action((encoded: string) => {
+    try {
+      runDecode(encoded);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Chains command
+program
+  .command('chains')
+  .description('List chains supported by MesonFi')
+  .option('--token <symbol>', 'Only list chains supporting this token (e.g., usdc)')
+  .option('--source-only', 'Only list chains that can be used as a source', false)
+  .option('--destination-only', 'Only list destination-only chains', false)
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: DiscoveryFilters & { debug?: boolean }) => {
+    try {
+      await runChains(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Tokens command
+program
+  .command('tokens')
+  .description('List supported tokens with their swap limits')
+  .argument('[chain]', 'Only list tokens on this chain (e.g., eth)')
+  .option('--token <symbol>', 'Only list this token (e.g., usdc)')
+  .option('--source-only', 'Only list tokens on chains that can be used as a source', false)
+  .option('--destination-only', 'Only list tokens on destination-only chains', false)
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (chain: string | undefined, options: DiscoveryFilters & { debug?: boolean }) => {
+    try {
+      await runTokens(chain, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Contracts command
+const contracts = program
+  .command('contracts')
+  .description('Manage the TransferToMeson contracts recorded in the contract registry');
+
+contracts
+  .command('list')
+  .description('List recorded TransferToMeson contracts')
+  .option('--chain <id>', 'Only contracts on this chain (e.g., eth)')
+  .option('--owner <address>', 'Only contracts deployed for this wallet')
+  .action((options: { chain?: string, owner?: string }) => {
+    try {
+      runContractsList(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+contracts
+  .command('deploy')
+  .description('Deploy your TransferToMeson contract on a chain through CREATE2 and record it')
+  .requiredOption('--chain <id>', 'Meson chain id to deploy on (e.g., eth)')
+  .option('--rpc-url <url>', 'RPC URL for the chain (defaults to MESON_RPC_URL_<CHAIN> or a public endpoint)')
+  .option('--meson-contract <address>', 'Address of the Meson contract (will be looked up from the address field in chain data if not provided)')
+  .option('--gas-limit-multiplier <n>', 'Multiplier applied to the gas estimate of each transaction', String(DEFAULT_GAS_LIMIT_MULTIPLIER))
+  .option('--max-fee-per-gas <gwei>', 'EIP-1559 maximum fee per gas in gwei (defaults to the RPC endpoint\'s suggestion)')
+  .option('--max-priority-fee <gwei>', 'EIP-1559 maximum priority fee per gas in gwei (defaults to the RPC endpoint\'s suggestion)')
+  .option('--legacy-gas-price <gwei>', 'Send legacy (type 0) transactions at this gas price in gwei')
+  .option('--max-gas-cost <amount>', 'Abort if the estimated fees of the transactions to send add up to more than this, in native token units')
+  .option('--private-key <key>', 'Private key for signing (can also be set via PRIVATE_KEY env var)')
+  .option('--signer <spec>', 'Signer to use instead of a private key: keystore:<path>, mnemonic or remote:<url>')
+  .option('--password-file <path>', 'File containing the keystore password (can also be set via KEYSTORE_PASSWORD env var)')
+  .option('--hd-path <path>', `Derivation path for --signer mnemonic ({index} is replaced with --hd-index)`, DEFAULT_HD_PATH)
+  .option('--hd-index <n>', 'Account index for --signer mnemonic', '0')
+  .option('--signer-address <address>', 'Account to use on a remote signer (defaults to its first account)')
+  .option('--dry-run', 'Only print the address the contract would be deployed to', false)
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: ContractsDeployOptions) => {
+    try {
+      await runContractsDeploy(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+contracts
+  .command('verify')
+  .description('Check that the recorded contracts on a chain still hold the bundled TransferToMeson code')
+  .option('--chain <id>', 'Meson chain id of the chain to check (e.g., eth)')
+  .option('--rpc-url <url>', 'RPC URL of the chain to check (defaults to the RPC URL of --chain); only contracts recorded for its chain ID are checked')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: { chain?: string, rpcUrl?: string, debug?: boolean }) => {
+    try {
+      const exitCode = await runContractsVerify(options);
+      process.exit(exitCode);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// History command
+const history = program
+  .command('history')
+  .description('List swaps submitted from this machine, as recorded in the swap ledger')
+  .option('--chain <id>', 'Only swaps from or to this chain (e.g., eth)')
+  .option('--since <date>', 'Only swaps submitted on or after this date (e.g., 2024-05-01)')
+  .option('--until <date>', 'Only swaps submitted on or before this date (e.g., 2024-05-31)')
+  .option('--status <states>', `Only swaps in these comma-separated states (${LEDGER_STATES.join(', ')})`)
+  .option('--csv [file]', 'Export the swaps as CSV to a file, or to stdout if no file is given')
+  .action((options: HistoryOptions) => {
+    try {
+      runHistory(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+history
+  .command('refresh')
+  .description('Update the last known status of swaps that are not final yet')
+  .option('--debug', 'Enable debug logging', false)
+  .action(async (options: { debug?: boolean }) => {
+    try {
+      await runHistoryRefresh(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Parse command line arguments
+program.parse();
+
+interface BridgeCommandOptions extends Partial<Pick<BridgeOptions, 'from' | 'to' | 'amount' | 'recipient'>>,
+  Omit<BridgeOptions, 'from' | 'to' | 'amount' | 'recipient'>, SignerOptions, FeeCliOptions {
+  interactive?: boolean;
+  yes?: boolean;
+}
+
+/**
+ * Executes the bridge operation with the provided options
+ *
+ * The route, amount and recipient are prompted for with `--interactive`, or
+ * when none of them is given and the command runs on a terminal. On a
+ * terminal the encoded swap is confirmed before signing unless `--yes` or
+ * machine-readable output is given.
+ */
+async function runBridge(options: BridgeCommandOptions): Promise<void> {
+  const out = getOutput();
+  const { rpcUrl, dryRun, debug, verifySwap = true } = options;
+  const routeGiven = [options.from, options.to, options.amount, options.recipient].some(v => v !== undefined);
+  const interactive = options.interactive || (!routeGiven && isInteractive());
+  if (interactive && !isInteractive()) {
+    throw new ValidationError('Interactive mode needs a terminal. Pass --from, --to, --amount and --recipient instead.');
+  }
+  const feeLimits = parseFeeLimits(options);
+  
+  // --- 1. Load Signer ---
+  const signer = await createSigner(options);
+  
+  // --- 2. Choose the Route ---
+  // The wizard's client is the one that bridges, so chain data is fetched once
+  const client = createClient(debug, { verifySwap, feeLimits });
+  const request = interactive
+    ? await promptSwapRequest(client, await signer.getAddress())
+    : requireRouteOptions(options);
+  const { from, to, amount, recipient } = request;
+  
+  // Output options when debug is enabled
+  if (debug) {
+    console.debug('Options:', { from, to, amount, recipient, rpcUrl, maxFee: options.maxFee, maxFeePercent: options.maxFeePercent, dryRun, debug, interactive });
+  }
+  
+  // --- 3. Validate, Encode, Sign and Submit ---
+  // Balances are only checked when an RPC URL is given; no default endpoint is used
+  const sourceRpcUrl = rpcUrl || process.env[rpcUrlEnvVar(from.split(':')[0])];
+  client.setContractService(sourceRpcUrl ? new MesonContractService(sourceRpcUrl, debug) : undefined);
+  
+  // Keep the signed swap so a failed submission can still be recorded
+  let encoded: { encoded: string, fee: LedgerEntry['fee'] } | undefined;
+  let signed = false;
+  client.on('step', (event, data) => {
+    if (event === 'encoded') {
+      encoded = { encoded: data.encoded as string, fee: data.fee as LedgerEntry['fee'] };
+    } else if (event === 'signed') {
+      signed = true;
+    }
+  });
+  
+  let result;
+  try {
+    result = await client.bridge({
+      ...request,
+      signer,
+      dryRun,
+      confirm: swapConfirmation(options.yes, 'Sign and submit this swap?')
+    });
+  } catch (error) {
+    if (signed && encoded && !dryRun) {
+      recordSwap({
+        command: 'bridge',
+        from,
+        to,
+        amount,
+        ...encoded,
+        fromAddress: await signer.getAddress(),
+        recipient,
+        error: error instanceof Error ? error.message : String(error)
+      }, submissionState(error));
+    }
+    throw error;
+  }
+  const { checks, ...bridgeResult } = result;
+  
+  if (dryRun) {
+    out.log('\n-- DRY RUN --');
+    out.log('Swap encoded and signed, but not submitted.');
+    out.log(`Encoded Swap: ${result.encoded}`);
+    out.log(`Signature: ${result.signature}`);
+    out.log(`Recipient: ${recipient}`);
+    out.log(`From Address: ${result.fromAddress}`);
+    out.result('bridge', bridgeResult);
+    return; // Exit successfully for dry run
+  }
+  
+  // --- 4. Record the Submitted Swap ---
+  recordSwap({
+    command: 'bridge',
+    from,
+    to,
+    amount,
+    fee: result.fee,
+    encoded: result.encoded,
+    swapId: result.swapId,
+    fromAddress: result.fromAddress,
+    recipient
+  });
+  
+  out.log('\nSwap submitted successfully!');
+  out.log(`Swap ID: ${result.swapId}`);
+  out.log(`Track status on Meson Explorer: ${result.explorerUrl}`);
+  out.result('bridge', bridgeResult);
+}
+
+/**
+ * Returns the route, amount and recipient options, which are required outside interactive mode
+ */
+function requireRouteOptions(options: BridgeCommandOptions): SwapRequest {
+  const { from, to, amount, recipient } = options;
+  if (from === undefined || to === undefined || amount === undefined || recipient === undefined) {
+    const missing = [['--from <chain:token>', from], ['--to <chain:token>', to], ['--amount <value>', amount], ['--recipient <address>', recipient]]
+      .filter(([, value]) => value === undefined)
+      .map(([flag]) => `'${flag}'`);
+    throw new ValidationError(`required option${missing.length > 1 ? 's' : ''} ${missing.join(', ')} not specified (or use --interactive)`);
+  }
+  return { from, to, amount, recipient };
+}
+
+interface BridgeBatchOptions extends SignerOptions {
+  file: string;
+  concurrency: string;
+  report?: string;
+  resume?: boolean;
+  dryRun?: boolean;
+  verifySwap?: boolean;
+  debug?: boolean;
+}
+
+/**
+ * Bridges every row of a manifest, writing a per-row report
+ *
+ * All rows are validated before anything is encoded. The report is rewritten
+ * after each step of each row, so `--resume` can skip rows that were already
+ * submitted and look up rows whose submission was in flight.
+ *
+ * @returns 0 if every row succeeded, otherwise the exit code of the first failed row
+ */
+async function runBridgeBatch(options: BridgeBatchOptions): Promise<number> {
+  const out = getOutput();
+  const { file, resume, dryRun, debug, verifySwap = true } = options;
+  const concurrency = Number(options.concurrency);
+  const reportPath = options.report || defaultReportPath(file);
+  
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ValidationError(`--concurrency must be a positive integer, got '${options.concurrency}'.`);
+  }
+  
+  const client = createClient(debug, { verifySwap });
+  
+  // --- 1. Load Manifest, Report and Signer ---
+  const rows = loadManifest(file);
+  out.log(`Loaded ${rows.length} row(s) from ${file}`);
+  
+  const previous = readReport(reportPath);
+  if (previous && !resume) {
+    throw new ValidationError(
+      `Report ${reportPath} already exists. Re-run with --resume to skip rows that were already submitted, or choose another --report.`
+    );
+  }
+  const report = new BatchReportWriter(reportPath, file, previous);
+  
+  const signer = await createSigner(options);
+  const fromAddress = await signer.getAddress();
+  out.log(`Using source address: ${fromAddress}`);
+  
+  // --- 2. Fetch Chain Data Once and Validate Every Row ---
+  const problems: string[] = [];
+  for (const row of rows) {
+    try {
+      await client.validate(row);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      problems.push(`row ${row.row}: ${error.message}`);
+    }
+  }
+  
+  if (problems.length > 0) {
+    throw new ValidationError(`Manifest validation failed, nothing was submitted: ${problems.join('; ')}`);
+  }
+  
+  out.log('Input validation passed.');
+  out.step('validated', { file, rows: rows.length, fromAddress });
+  
+  // --- 3. Skip Rows Completed by a Previous Run ---
+  const pendingRows: BatchRow[] = [];
+  for (const row of rows) {
+    const recorded = report.get(row);
+    
+    // A crash during submission leaves the row pending. Only the swap signed then may be
+    // submitted again: a newly encoded swap could be paid as well if the first one arrived.
+    if (recorded?.status === 'pending' && recorded.encoded && recorded.signature) {
+      const result = await resumePendingRow(client, report, row, { dryRun });
+      const detail = result.error ? result.error.message : result.swapId;
+      out.log(`[row ${row.row}] pending from a previous run: ${result.status}${detail ? ` (${detail})` : ''}`);
+      continue;
+    }
+    
+    const current = report.get(row);
+    if (current?.status === 'submitted') {
+      out.log(`[row ${row.row}] already submitted as ${current.swapId}, skipping`);
+      continue;
+    }
+    pendingRows.push(row);
+  }
+  
+  // --- 4. Encode, Sign and Submit ---
+  out.log(`${dryRun ? 'Encoding and signing' : 'Bridging'} ${pendingRows.length} row(s) with concurrency ${concurrency}...`);
+  await runWithConcurrency(pendingRows, concurrency, async row => {
+    const result = await bridgeBatchRow(client, report, row, signer, { dryRun });
+    const detail = result.error ? result.error.message : result.swapId || result.encoded;
+    out.log(`[row ${row.row}] ${row.amount} ${row.from} -> ${row.to} for ${row.recipient}: ${result.status}${detail ? ` (${detail})` : ''}`);
+    out.step('row', { ...result });
+  });
+  
+  // --- 5. Summarize ---
+  const results = rows.map(row => report.get(row)!);
+  const count = (status: BatchRowResult['status']) => results.filter(r => r.status === status).length;
+  const summary = {
+    total: rows.length,
+    submitted: count('submitted'),
+    skipped: rows.length - pendingRows.length,
+    pending: count('pending'),
+    failed: count('failed')
+  };
+  
+  out.log(formatTable(
+    ['Row', 'Route', 'Amount', 'Recipient', 'Status', 'Swap ID / Error'],
+    results.map(r => [String(r.row), `${r.from} -> ${r.to}`, r.amount, r.recipient, r.status, r.swapId || r.error?.message || '-'])
+  ));
+  out.log(`\n${summary.submitted} submitted (${summary.skipped} from a previous run), ${summary.pending} pending, ${summary.failed} failed.`);
+  out.log(`Report written to ${reportPath}`);
+  if (summary.pending > 0) {
+    out.log('Pending rows may have reached the relayer. Re-run with --resume to check them before submitting again.');
+  }
+  out.result('bridge-batch', { dryRun: !!dryRun, file, report: reportPath, fromAddress, ...summary, rows: results });
+  
+  const failed = results.find(r => r.status === 'failed' || r.status === 'pending');
+  return failed ? failed.error?.exitCode ?? EXIT_CODES.UNKNOWN : EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Encodes, signs and submits one manifest row, recording each step in the report
+ *
+ * Errors are recorded rather than thrown. A row whose submission failed for
+ * network reasons stays pending, since the relayer may have accepted it.
+ */
+async function bridgeBatchRow(
+  client: MesonBridgeClient,
+  report: BatchReportWriter,
+  row: BatchRow,
+  signer: MesonSigner,
+  options: { dryRun?: boolean }
+): Promise<BatchRowResult> {
+  let encoded: string | undefined;
+  let signature: string | undefined;
+  let fromAddress: string | undefined;
+  let fee: LedgerEntry['fee'];
+  let submitting = false;
+  
+  try {
+    const prepared = await client.prepare(row, signer);
+    ({ encoded, signature, fromAddress, fee } = prepared);
+    
+    if (options.dryRun) {
+      return report.update(row, { status: 'dry-run', encoded, signature, fromAddress });
+    }
+    
+    // Record the signed swap before submitting so a crash can be resolved with --resume
+    report.update(row, { status: 'pending', encoded, signature, fromAddress });
+    submitting = true;
+    const { swapId, explorerUrl } = await client.submit(prepared);
+    recordSwap({
+      command: 'bridge-batch',
+      from: row.from,
+      to: row.to,
+      amount: row.amount,
+      fee: prepared.fee,
+      encoded,
+      swapId,
+      fromAddress: prepared.fromAddress,
+      recipient: row.recipient
+    });
+    return report.update(row, { status: 'submitted', swapId, encoded, signature, fromAddress, explorerUrl });
+  } catch (error) {
+    const status = submitting && error instanceof NetworkError ? 'pending' : 'failed';
+    if (submitting) {
+      recordSwap({
+        command: 'bridge-batch',
+        from: row.from,
+        to: row.to,
+        amount: row.amount,
+        fee,
+        encoded: encoded!,
+        fromAddress: fromAddress!,
+        recipient: row.recipient,
+        error: error instanceof Error ? error.message : String(error)
+      }, submissionState(error));
+    }
+    return report.update(row, { status, encoded, signature, fromAddress, error: serializeError(error) });
+  }
+}
+
+/**
+ * Ledger state of a signed swap whose submission failed: without a response it may still have arrived
+ */
+function submissionState(error: unknown): LedgerState {
+  return error instanceof NetworkError ? 'SUBMIT_UNCONFIRMED' : 'SUBMIT_FAILED';
+}
+
+/**
+ * Settles a row a previous run left pending, using the swap signed then
+ *
+ * If the relayer does not report the swap, the same encoded swap and
+ * signature are submitted again, with the address that signed them rather
+ * than the current signer's; the relayer identifies a swap by its
+ * encoding, so it cannot be paid twice. Nothing is encoded or signed anew.
+ * The row fails if the relayer rejects the submission or the swap expired
+ * unsubmitted, and stays pending if neither the lookup nor the submission
+ * gets an answer, or if the report does not say which address signed it.
+ */
+async function resumePendingRow(
+  client: MesonBridgeClient,
+  report: BatchReportWriter,
+  row: BatchRow,
+  options: { dryRun?: boolean }
+): Promise<BatchRowResult> {
+  const recorded = report.get(row)!;
+  const encoded = recorded.encoded!;
+  const fromAddress = recorded.fromAddress;
+  try {
+    let swapId = await findSubmittedSwap(client.api, encoded);
+    if (!swapId) {
+      if (options.dryRun) {
+        return recorded;
+      }
+      const { expireTs } = decodeEncodedSwap(encoded);
+      if (expireTs <= Math.floor(Date.now() / 1000)) {
+        throw new SwapExpiredError(`Swap expired at ${new Date(expireTs * 1000).toISOString()} before the relayer accepted it.`);
+      }
+      if (!fromAddress) {
+        throw new ValidationError('The report does not record the address that signed this swap, so it cannot be submitted again.');
+      }
+      ({ swapId } = await client.api.submitSwap(encoded, fromAddress, row.recipient, recorded.signature!));
+    }
+    // The entry written when the submission failed keeps its fee and time
+    const updated = updateLedger(encoded, { status: 'PENDING', statusUpdatedAt: new Date().toISOString(), swapId, error: undefined });
+    if (!updated) {
+      recordSwap({
+        command: 'bridge-batch',
+        from: row.from,
+        to: row.to,
+        amount: row.amount,
+        encoded,
+        swapId,
+        fromAddress: fromAddress!,
+        recipient: row.recipient
+      });
+    }
+    return report.update(row, { ...recorded, status: 'submitted', swapId, explorerUrl: explorerLink(swapId), error: undefined });
+  } catch (error) {
+    // A swap the relayer turned down for good is not worth resubmitting
+    const rejected = error instanceof SwapExpiredError || (error instanceof MesonApiError && !isRetryableStatus(error.httpStatus));
+    updateLedger(encoded, {
+      error: error instanceof Error ? error.message : String(error),
+      ...(rejected ? { status: 'SUBMIT_FAILED', statusUpdatedAt: new Date().toISOString() } : {})
+    });
+    return report.update(row, { ...recorded, status: rejected ? 'failed' : 'pending', error: serializeError(error) });
+  }
+}
+
+/**
+ * Looks up whether the relayer knows an encoded swap
+ * @returns The swap ID, or undefined if the relayer does not report the swap (yet)
+ */
+async function findSubmittedSwap(api: MesonApiService, encoded: string): Promise<string | undefined> {
+  try {
+    const status = await api.getSwapStatus(encoded);
+    return status.swapId;
+  } catch (error) {
+    if (error instanceof MesonApiError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Executes the bridge operation via smart contract with the provided options
+ */
+async function runContractBridge(
+  options: BridgeOptions & SignerOptions & GasCliOptions & FeeCliOptions & {
+    mesonContract?: string,
+    transferContract?: string,
+    deployIfMissing?: boolean,
+    approve?: boolean,
+    rpcUrl?: string,
+    yes?: boolean
+  }
+): Promise<void> {
+  const out = getOutput();
+  const { 
+    from, 
+    to, 
+    amount, 
+    recipient, 
+    mesonContract,
+    transferContract,
+    deployIfMissing = false,
+    approve = false,
+    rpcUrl,
+    dryRun = false, 
+    debug,
+    verifySwap = true
+  } = options;
+  
+  // Output options when debug is enabled
+  if (debug) {
+    console.debug('Options:', { 
+      from, 
+      to, 
+      amount, 
+      recipient, 
+      mesonContract,
+      transferContract,
+      deployIfMissing,
+      approve,
+      rpcUrl,
+      gasLimitMultiplier: options.gasLimitMultiplier,
+      maxFeePerGas: options.maxFeePerGas,
+      maxPriorityFee: options.maxPriorityFee,
+      legacyGasPrice: options.legacyGasPrice,
+      maxGasCost: options.maxGasCost,
+      maxFee: options.maxFee,
+      maxFeePercent: options.maxFeePercent,
+      dryRun, 
+      debug
+    });
+  }
+  const gas = parseGasOptions(options);
+  const feeLimits = parseFeeLimits(options);
+  
+  // --- 1. Load Signer ---
+  const signer = await createSigner(options);
+  const fromAddress = await signer.getAddress();
+  
+  // --- 2. Bridge Through the TransferToMeson Contract ---
+  const sourceRpcUrl = resolveRpcUrl(from.split(':')[0], rpcUrl, getApiConfig().network);
+  const client = createClient(debug, {
+    verifySwap,
+    feeLimits,
+    contractService: new MesonContractService(sourceRpcUrl, debug, gas),
+    registry: getRegistry()
+  });
+  
+  // Record the swap as soon as it is mined: the funds have left the wallet even if the relayer is never notified
+  let fee: LedgerEntry['fee'];
+  let mined: { txHash: string, encoded: string } | undefined;
+  client.on('step', (event, data) => {
+    if (event === 'encoded') {
+      fee = data.fee as LedgerEntry['fee'];
+    } else if (event === 'mined') {
+      mined = { txHash: data.txHash as string, encoded: data.encoded as string };
+      recordSwap({
+        command: 'bridge-contract',
+        from,
+        to,
+        amount,
+        fee,
+        encoded: mined.encoded,
+        txHash: mined.txHash,
+        fromAddress,
+        recipient,
+        transferContract: data.transferContract as string | undefined
+      });
+    }
+  });
+  
+  let result;
+  try {
+    result = await client.bridgeViaContract({
+      from,
+      to,
+      amount,
+      recipient,
+      signer,
+      mesonContract,
+      transferContract,
+      deployIfMissing,
+      approve,
+      dryRun,
+      confirm: swapConfirmation(options.yes, 'Send the transferToMeson transaction?')
+    });
+  } catch (error) {
+    // The transaction is already mined, so tell the user how to retry only the notification
+    if (mined) {
+      updateLedger(mined.encoded, { error: error instanceof Error ? error.message : String(error) });
+    }
+    if (mined && !out.machine) {
+      console.error('\nThe transaction was mined but the relayer could not be notified. Retry with:');
+      console.error(`  meson-cli submit-contract-swap --encoded ${mined.encoded} --hash ${mined.txHash}`);
+    }
+    throw error;
+  }
+  const { checks, ...contractBridgeResult } = result;
+  
+  if (dryRun) {
+    const swapTokenLabel = result.token.native ? 'native token' : (result.token.symbol || result.token.address);
+    out.log('\n-- DRY RUN --');
+    out.log('Swap encoded, but contract call not executed.');
+    out.log(`Encoded Swap: ${result.encoded}`);
+    out.log(`Meson Contract Address: ${result.mesonContract}`);
+    if (result.transferContract) {
+      out.log(`TransferToMeson Contract Address: ${result.transferContract}${transferContract ? '' : ' (from the contract registry)'}`);
+    } else {
+      out.log(`Will deploy TransferToMeson contract at ${predictTransferToMesonAddress(result.fromAddress, result.mesonContract)}`);
+    }
+    out.log(`Recipient: ${recipient}`);
+    out.log(`From Address: ${result.transferContract || result.fromAddress}`);
+    out.log(`Amount: ${amount}`);
+    if (!result.token.native) {
+      out.log(`Token: ${result.token.address}`);
+      if (result.needsApproval) {
+        out.log(`Approval of ${result.token.amount} ${swapTokenLabel} required before transferToMeson${approve ? ' (will be sent with --approve)' : ''}`);
+      }
+    }
+    out.log(`Simulation: ${result.simulated ? 'transferToMeson would succeed' : 'not run, see above'}`);
+    out.result('bridge-contract', contractBridgeResult);
+    return; // Exit successfully for dry run
+  }
+  
+  updateLedger(result.encoded, { swapId: result.swapId });
+  
+  out.log('\nSwap submitted successfully!');
+  out.log(`Swap ID: ${result.swapId}`);
+  out.log(`Track status on Meson Explorer: ${result.explorerUrl}`);
+  out.result('bridge-contract', contractBridgeResult);
+}
+
+/**
+ * Reports a mined TransferToMeson transaction to the relayer
+ */
+async function runSubmitContractSwap(options: Pick<BridgeOptions, 'hash' | 'debug'> & { encoded: string }): Promise<void> {
+  const out = getOutput();
+  const { encoded, hash, debug } = options;
+  
+  if (!hash) {
+    throw new ValidationError('Transaction hash must be provided via --hash option.');
+  }
+  
+  const api = createApiService(debug);
+  
+  out.log(`Submitting contract swap ${encoded} with transaction ${hash}...`);
+  let swapResult;
+  try {
+    swapResult = await api.submitSwapFromContract(encoded, hash);
+  } catch (error) {
+    updateLedger(encoded, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+  const explorerUrl = explorerLink(swapResult.swapId);
+  updateLedger(encoded, { swapId: swapResult.swapId, error: undefined });
+  out.step('submitted', { swapId: swapResult.swapId, explorerUrl });
+  
+  out.log('\nSwap submitted successfully!');
+  out.log(`Swap ID: ${swapResult.swapId}`);
+  out.log(`Track status on Meson Explorer: ${explorerUrl}`);
+  out.result('submit-contract-swap', { encoded, txHash: hash, swapId: swapResult.swapId, explorerUrl });
+}
+
+/**
+ * Lists recorded TransferToMeson contracts
+ */
+function runContractsList(options: { chain?: string, owner?: string }): void {
+  const out = getOutput();
+  const entries = getRegistry().list().filter(e =>
+    (!options.chain || e.chain === options.chain) &&
+    (!options.owner || e.owner.toLowerCase() === options.owner.toLowerCase())
+  );
+  
+  out.result('contracts list', { contracts: entries });
+  
+  if (entries.length === 0) {
+    out.log('No TransferToMeson contracts recorded.');
+    return;
+  }
+  out.log(formatTable(
+    ['Chain', 'Chain ID', 'Owner', 'Address', 'Meson Contract', 'Deployed'],
+    entries.map(e => [e.chain, e.chainId, e.owner, e.address, e.mesonContract, e.deployedAt])
+  ));
+}
+
+interface ContractsDeployOptions extends SignerOptions, GasCliOptions {
+  chain: string;
+  rpcUrl?: string;
+  mesonContract?: string;
+  dryRun?: boolean;
+  debug?: boolean;
+}
+
+/**
+ * Deploys the signer's TransferToMeson contract on a chain and records it
+ */
+async function runContractsDeploy(options: ContractsDeployOptions): Promise<void> {
+  const out = getOutput();
+  const { chain, rpcUrl, mesonContract, dryRun, debug } = options;
+  const gas = parseGasOptions(options);
+  
+  // --- 1. Load Signer ---
+  const signer = await createSigner(options);
+  const owner = await signer.getAddress();
+  
+  // --- 2. Predict the Address (or stop here for a dry run) ---
+  const contractService = new MesonContractService(resolveRpcUrl(chain, rpcUrl, getApiConfig().network), debug, gas);
+  const client = createClient(debug, { contractService, registry: getRegistry() });
+  if (dryRun) {
+    const meson = mesonContract || findContractAddress(await client.getSupportedChains(), chain);
+    if (!meson) {
+      throw new ValidationError(`Could not find Meson contract address for chain ${chain}. Please provide it with --meson-contract option.`);
+    }
+    const address = predictTransferToMesonAddress(owner, meson);
+    const deployed = isTransferToMesonCode(await contractService.getCode(address));
+    out.log('\n-- DRY RUN --');
+    out.log(`TransferToMeson contract for ${owner}: ${address} (${deployed ? 'already deployed' : 'not deployed yet'})`);
+    out.result('contracts deploy', { dryRun: true, chain, owner, mesonContract: meson, address, deployed });
+    return;
+  }
+  
+  // --- 3. Deploy and Record ---
+  const result = await client.deployTransferContract({ chain, signer, mesonContract });
+  
+  out.log(`\nTransferToMeson contract ${result.reused ? 'was already deployed' : 'deployed'} at: ${result.address}`);
+  if (result.txHash) {
+    out.log(`Transaction Hash: ${result.txHash}`);
+  }
+  out.log(`Recorded in ${getRegistry().file}`);
+  out.result('contracts deploy', { dryRun: false, ...result });
+}
+
+type ContractCodeStatus = 'ok' | 'missing' | 'mismatch';
+
+/**
+ * Checks the code of the recorded contracts on the chain of an RPC URL
+ *
+ * @returns 0 if every contract holds the bundled code, otherwise the validation exit code
+ */
+async function runContractsVerify(options: { chain?: string, rpcUrl?: string, debug?: boolean }): Promise<number> {
+  const out = getOutput();
+  if (!options.chain && !options.rpcUrl) {
+    throw new ValidationError('Provide the chain to check with --chain or --rpc-url.');
+  }
+  const rpcUrl = options.chain ? resolveRpcUrl(options.chain, options.rpcUrl, getApiConfig().network) : options.rpcUrl!;
+  const contractService = new MesonContractService(rpcUrl, options.debug);
+  const chainId = String(await contractService.getChainId());
+  
+  const entries = getRegistry().list().filter(e => e.chainId === chainId);
+  const results: (RegistryEntry & { status: ContractCodeStatus })[] = [];
+  for (const entry of entries) {
+    const code = await contractService.getCode(entry.address);
+    const status: ContractCodeStatus = code === '0x' ? 'missing' : isTransferToMesonCode(code) ? 'ok' : 'mismatch';
+    results.push({ ...entry, status });
+  }
+  
+  const failed = results.filter(r => r.status !== 'ok');
+  out.result('contracts verify', { chainId, contracts: results, verified: failed.length === 0 });
+  
+  if (results.length === 0) {
+    out.log(`No TransferToMeson contracts recorded for chain ID ${chainId}.`);
+    return 0;
+  }
+  out.log(formatTable(
+    ['Chain', 'Owner', 'Address', 'Status'],
+    results.map(r => [r.chain, r.owner, r.address, r.status])
+  ));
+  if (failed.length > 0) {
+    out.log(`\n${failed.length} of ${results.length} contract(s) do not hold the bundled TransferToMeson code.`);
+    return EXIT_CODES.VALIDATION;
+  }
+  return 0;
+}
+
+interface HistoryOptions {
+  chain?: string;
+  since?: string;
+  until?: string;
+  status?: string;
+  csv?: string | boolean;
+}
+
+/**
+ * Lists ledger entries matching the filters, or exports them as CSV
+ */
+function runHistory(options: HistoryOptions): void {
+  const out = getOutput();
+  const ledger = getLedger();
+  
+  const status = options.status
+    ? options.status.split(',').map(s => s.trim().toUpperCase()).filter(s => s !== '')
+    : undefined;
+  const unknown = (status || []).filter(s => !LEDGER_STATES.includes(s as LedgerState));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown status ${unknown.join(', ')}. Expected one of ${LEDGER_STATES.join(', ')}.`);
+  }
+  
+  const entries = filterLedger(ledger.list(), {
+    chain: options.chain,
+    since: options.since ? parseLedgerDate(options.since, '--since') : undefined,
+    until: options.until ? parseLedgerDate(options.until, '--until', true) : undefined,
+    status: status as LedgerState[] | undefined
+  });
+  
+  if (options.csv) {
+    // Ledger fields in export column order
+    const columns = [
+      'timestamp', 'network', 'command', 'from', 'to', 'amount', 'serviceFee', 'lpFee', 'totalFee',
+      'status', 'statusUpdatedAt', 'swapId', 'txHash', 'encoded', 'fromAddress', 'recipient', 'transferContract', 'error'
+    ];
+    const csv = formatCsv(columns, entries.map(entry => columns.map(column => {
+      if (column === 'serviceFee' || column === 'lpFee' || column === 'totalFee') {
+        return entry.fee?.[column] || '';
+      }
+      return String(entry[column as keyof LedgerEntry] ?? '');
+    })));
+    
+    // CSV on stdout is the command's output, so nothing else is written there
+    if (options.csv === true) {
+      process.stdout.write(csv);
+      return;
+    }
+    
+    fs.writeFileSync(options.csv, csv);
+    out.log(`Exported ${entries.length} swap(s) to ${options.csv}`);
+    out.result('history', { ledger: ledger.file, csv: options.csv, count: entries.length });
+    return;
+  }
+  
+  out.result('history', { ledger: ledger.file, entries });
+  
+  if (entries.length === 0) {
+    out.log(`No swaps found in ${ledger.file}`);
+    return;
+  }
+  
+  out.log(formatTable(
+    ['Date', 'Route', 'Amount', 'Fee', 'Status', 'Swap ID / Tx Hash'],
+    entries.map(e => [
+      e.timestamp.replace('T', ' ').slice(0, 19),
+      `${e.from} -> ${e.to}`,
+      e.amount,
+      e.fee?.totalFee || '-',
+      e.status,
+      e.swapId || e.txHash || e.encoded
+    ])
+  ));
+}
+
+/**
+ * Looks up the current status of every ledger swap that is not final yet
+ */
+async function runHistoryRefresh(options: { debug?: boolean }): Promise<void> {
+  const out = getOutput();
+  const ledger = getLedger();
+  const { network } = getApiConfig();
+  const api = createApiService(options.debug);
+  
+  // Swaps on another network cannot be looked up on the configured relayer
+  const open = ledger.list().filter(e => !isSettledEntry(e));
+  const current = open.filter(e => e.network === network);
+  const skipped = open.length - current.length;
+  
+  out.log(`Refreshing ${current.length} swap(s) that are not final${skipped > 0 ? ` (${skipped} on other networks skipped)` : ''}...`);
+  
+  const updated: LedgerEntry[] = [];
+  const failed: { encoded: string, error: ReturnType<typeof serializeError> }[] = [];
+  for (const entry of current) {
+    const label = entry.swapId || entry.encoded;
+    try {
+      const status = await api.getSwapStatus(label);
+      const state = resolveSwapState(status);
+      const result = ledger.update(entry.encoded, {
+        status: state,
+        statusUpdatedAt: new Date().toISOString(),
+        swapId: entry.swapId || status.swapId,
+        error: undefined
+      });
+      if (result) {
+        updated.push(result);
+      }
+      out.log(`${label}: ${entry.status}${state !== entry.status ? ` -> ${state}` : ''}`);
+      out.step('status', { swapId: status.swapId, encoded: entry.encoded, state });
+    } catch (error) {
+      failed.push({ encoded: entry.encoded, error: serializeError(error) });
+      out.log(`${label}: could not be refreshed (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+  
+  out.result('history-refresh', { ledger: ledger.file, network, updated, failed, skipped });
+}
+
+/**
+ * Prints the status of a swap, optionally watching it until it is final
+ * @returns The process exit code for the resulting swap state
+ */
+async function runStatus(
+  swapIdOrEncoded: string,
+  options: { watch?: boolean, interval: string, timeout: string, debug?: boolean }
+): Promise<number> {
+  const out = getOutput();
+  const { watch, debug } = options;
+  const intervalSeconds = parseFloat(options.interval);
+  const timeoutSeconds = parseFloat(options.timeout);
+  
+  if (!(intervalSeconds > 0) || !(timeoutSeconds > 0)) {
+    throw new ValidationError('--interval and --timeout must be positive numbers of seconds.');
+  }
+  
+  const api = createApiService(debug);
+  
+  if (!watch) {
+    const status = await api.getSwapStatus(swapIdOrEncoded);
+    const state = resolveSwapState(status);
+    printSwapStatus(status, state);
+    out.result('status', { ...status, state, timedOut: false, explorerUrl: explorerLink(status.swapId) });
+    return exitCodeForState(state);
+  }
+  
+  out.log(`Watching swap ${swapIdOrEncoded} (every ${intervalSeconds}s, timeout ${timeoutSeconds}s)...`);
+  const result = await watchSwapStatus(api, swapIdOrEncoded, {
+    intervalMs: intervalSeconds * 1000,
+    timeoutMs: timeoutSeconds * 1000,
+    onUpdate: (status, state) => {
+      printSwapStatus(status, state);
+      out.step('status', { swapId: status.swapId, state, events: status.events });
+    },
+    onRetry: error => out.log(`Status not available yet (${error.message}); retrying in ${intervalSeconds}s...`)
+  });
+  
+  out.result('status', {
+    ...result.status,
+    state: result.state,
+    timedOut: result.timedOut,
+    explorerUrl: result.status ? explorerLink(result.status.swapId) : undefined
+  });
+  
+  if (result.timedOut) {
+    out.log(`\nTimed out after ${timeoutSeconds}s; last known state: ${result.state}`);
+    return STATUS_EXIT_CODES.TIMEOUT;
+  }
+  
+  return exitCodeForState(result.state);
+}
+
+/**
+ * Prints a swap status summary
+ */
+function printSwapStatus(status: SwapStatus, state: SwapState): void {
+  const out = getOutput();
+  out.log(`\n[${new Date().toISOString()}] Swap ${status.swapId}: ${state}`);
+  if (status.fromAddress) {
+    out.log(`From Address: ${status.fromAddress}`);
+  }
+  if (status.recipient) {
+    out.log(`Recipient: ${status.recipient}`);
+  }
+  for (const event of status.events) {
+    out.log(`  ${event.name}${event.hash ? ` ${event.hash}` : ''}`);
+  }
+  out.log(`Track status on Meson Explorer: ${explorerLink(status.swapId)}`);
+}
+
+interface QuoteOptions {
+  from: string;
+  to?: string[];
+  toChain?: string;
+  amount: string;
+  address?: string;
+  recipient?: string;
+  debug?: boolean;
+}
+
+/**
+ * Quotes fees for one or more routes and prints them ranked by total fee
+ */
+async function runQuote(options: QuoteOptions): Promise<void> {
+  const out = getOutput();
+  const { from, to, toChain, amount, address, recipient, debug } = options;
+  
+  const client = createClient(debug);
+  const quotes = await client.quote({ from, to, toPattern: toChain, amount, address, recipient });
+  out.result('quote', { quotes });
+  
+  out.log(formatTable(
+    ['Rank', 'Route', 'Service Fee', 'LP Fee', 'Total Fee', 'Net Received', 'Converted'],
+    quotes.map((q, i) => q.fee
+      ? [
+          String(i + 1),
+          `${q.from} -> ${q.to}`,
+          q.fee.serviceFee,
+          q.fee.lpFee,
+          q.fee.totalFee,
+          q.netReceived || '-',
+          q.converted ? `${q.converted.amount} ${q.converted.token}` : '-'
+        ]
+      : ['-', `${q.from} -> ${q.to}`, `Error: ${q.error}`]
+    )
+  ));
+}
+
+/**
+ * Decodes an encoded swap and prints its fields
+ */
+function runDecode(encoded: string): void {
+  const out = getOutput();
+  const decoded = decodeEncodedSwap(encoded);
+  const describe = (code: number, bytes: number, names: string[]) =>
+    `${formatCode(code, bytes)}${names.length > 0 ? ` (${names.join('/')})` : ''}`;
+  
+  out.log(`Version:   ${decoded.version}`);
+  out.log(`Amount:    ${formatMesonAmount(decoded.amount)}`);
+  out.log(`Salt:      0x${decoded.salt.toString(16).padStart(20, '0')}`);
+  out.log(`Fee:       ${formatMesonAmount(decoded.fee)}`);
+  out.log(`Expires:   ${new Date(decoded.expireTs * 1000).toISOString()} (${decoded.expireTs})`);
+  out.log(`In Chain:  ${describe(decoded.inChain, 2, chainIdsForCode(decoded.inChain))}`);
+  out.log(`In Token:  ${describe(decoded.inToken, 1, tokenIdsForIndex(decoded.inToken))}`);
+  out.log(`Out Chain: ${describe(decoded.outChain, 2, chainIdsForCode(decoded.outChain))}`);
+  out.log(`Out Token: ${describe(decoded.outToken, 1, tokenIdsForIndex(decoded.outToken))}`);
+  
+  out.result('decode', {
+    encoded,
+    ...decoded,
+    amount: formatMesonAmount(decoded.amount),
+    fee: formatMesonAmount(decoded.fee),
+    salt: `0x${decoded.salt.toString(16).padStart(20, '0')}`
+  });
+}
+
+/**
+ * Lists supported chains
+ */
+async function runChains(options: DiscoveryFilters & { debug?: boolean }): Promise<void> {
+  const out = getOutput();
+  const api = createApiService(options.debug);
+  const chains = listChains(await api.getSupportedChains(), options);
+  
+  out.result('chains', { chains });
+  
+  out.log(formatTable(
+    ['ID', 'Name', 'Chain ID', 'Meson Address', 'Destination Only'],
+    chains.map(c => [c.id, c.name, c.chainId, c.address, c.destinationChainOnly ? 'yes' : 'no'])
+  ));
+}
+
+/**
+ * Lists supported tokens joined with their swap limits
+ */
+async function runTokens(chain: string | undefined, options: DiscoveryFilters & { debug?: boolean }): Promise<void> {
+  const out = getOutput();
+  const api = createApiService(options.debug);
+  const chains = await api.getSupportedChains();
+  const limits = await api.getSwapLimits();
+  const tokens = listTokens(chains, limits, chain, options);
+  
+  out.result('tokens', { tokens });
+  
+  out.log(formatTable(
+    ['Chain', 'Token', 'Address', 'Min', 'Max', 'Destination Only'],
+    tokens.map(t => [t.chain, t.token, t.addr || '-', t.min || '-', t.max || '-', t.destinationChainOnly ? 'yes' : 'no'])
+  ));
+}
+
+/**
+ * Prints an error and exits with the exit code of its error class
+ */
+function handleError(error: unknown): never {
+  const out = getOutput();
+  if (out.machine) {
+    out.error(error);
+    process.exit(exitCodeFor(error));
+  }
+  
+  console.error('\nError:', error instanceof Error ? error.message : String(error));
+  if (error instanceof MesonApiError && (error.code !== undefined || error.dataCode)) {
+    console.error(`Relayer error code: ${error.code ?? '-'}${error.dataCode ? ` (${error.dataCode})` : ''}`);
+  }
+  process.exit(exitCodeFor(error));
+}
+
+/**
+ * Returns the output writer for the mode selected by --json / --ndjson
+ */
+function getOutput(): Output {
+  if (!output) {
+    const { json, ndjson } = program.opts<{ json?: boolean, ndjson?: boolean }>();
+    output = new Output(ndjson ? 'ndjson' : json ? 'json' : 'human');
+  }
+  return output;
+}
+
+/**
+ * Collects repeated option values into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
+
+/**
+ * Resolves the relayer and explorer endpoints from the global options
+ */
+function getApiConfig(): ApiConfig {
+  return resolveApiConfig(program.opts<NetworkOptions>());
+}
+
+/**
+ * Creates an API service for the configured relayer endpoint
+ */
+function createApiService(debug?: boolean): MesonApiService {
+  return new MesonApiService(debug, getApiConfig());
+}
+
+/**
+ * Opens the swap ledger selected by --ledger / MESON_LEDGER
+ */
+function getLedger(): SwapLedger {
+  return new SwapLedger(resolveLedgerPath(program.opts<{ ledger?: string }>().ledger));
+}
+
+/**
+ * Opens the contract registry selected by --registry / MESON_REGISTRY
+ */
+function getRegistry(): ContractRegistry {
+  return new ContractRegistry(resolveRegistryPath(program.opts<{ registry?: string }>().registry));
+}
+
+/**
+ * Adds a submitted swap to the ledger
+ *
+ * Ledger errors are only warned about; the swap itself has already gone out.
+ */
+function recordSwap(entry: Omit<LedgerEntry, 'timestamp' | 'network' | 'status' | 'statusUpdatedAt'>, status: LedgerState = 'PENDING'): void {
+  const now = new Date().toISOString();
+  try {
+    getLedger().record({ timestamp: now, network: getApiConfig().network, ...entry, status, statusUpdatedAt: now });
+  } catch (error) {
+    console.warn(`Warning: Could not record swap in the ledger: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Updates the ledger entry of a swap, if there is one
+ * @returns The updated entry, or undefined if the swap is not in the ledger
+ */
+function updateLedger(encoded: string, changes: Partial<LedgerEntry>): LedgerEntry | undefined {
+  try {
+    return getLedger().update(encoded, changes);
+  } catch (error) {
+    console.warn(`Warning: Could not update swap in the ledger: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Creates a bridge client for the configured relayer that reports its
+ * progress through the selected output mode
+ */
+function createClient(debug?: boolean, options: MesonBridgeClientOptions = {}): MesonBridgeClient {
+  const out = getOutput();
+  const config = getApiConfig();
+  const client = new MesonBridgeClient({
+    api: createApiService(debug),
+    network: config.network,
+    explorerUrl: config.explorerUrl,
+    ...options
+  });
+  client.on('log', message => out.log(message));
+  client.on('step', (event, data) => out.step(event, data));
+  client.on('warning', message => console.warn(message));
+  return client;
+}
+
+/**
+ * Asks to confirm the encoded swap on a terminal, with the given question
+ *
+ * Not asked with `--yes`, and not with `--json` / `--ndjson`, whose callers
+ * are scripts that cannot answer.
+ */
+function swapConfirmation(yes: boolean | undefined, question: string): SwapConfirmation | undefined {
+  if (yes || getOutput().machine || !isInteractive()) {
+    return undefined;
+  }
+  return summary => confirmSwap(summary, question);
+}
+
+/**
+ * Builds the Meson Explorer link for the configured network
+ */
+function explorerLink(swapIdOrEncoded: string): string {
+  return explorerSwapUrl(getApiConfig().explorerUrl, swapIdOrEncoded);
+}
@@ -0,0 +1,1042 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { MesonApiService } from './api';
+import {
+  MesonContractService,
+  SwapTokenInfo,
+  TransferContractDeployment,
+  findContractAddress,
+  isTransferToMesonCode,
+  predictTransferToMesonAddress
+} from './contract';
+import { ContractRegistry, RegistryEntry } from './registry';
+import { Chain, ChainLimit, EncodeSwapResult, Token } from './types';
+import { MesonSigner } from './signers';
+import { signMessageHash, signingSchemeFrom, computeSigningHash, recoverHashSigner, SigningScheme } from './signature';
+import { assertEncodedSwap, decodeEncodedSwap, SwapCheck } from './encoded-swap';
+import { MesonAmount } from './amount';
+import { validateChainToken, validateAmount, validateRecipient } from './validation';
+import { expandDestinations, quoteRoutes, RouteQuote, QUOTE_PLACEHOLDER_ADDRESS } from './quote';
+import { NETWORKS, DEFAULT_NETWORK, explorerSwapUrl } from './config';
+import { GasEstimate, formatGasEstimate } from './gas';
+import { FeeLimits, assertFeeLimits } from './fees';
+import { ValidationError, MesonApiError, InsufficientFundsError, ContractRevertError } from './errors';
+import { StepEvent } from './output';
+
+export interface MesonBridgeClientOptions {
+  api?: MesonApiService;                   // Relayer client (defaults to the public mainnet relayer)
+  contractService?: MesonContractService;  // Source chain RPC, required by bridgeViaContract(); bridge() uses it to check balances
+  network?: string;                        // Network name used for signing and explorer links (default mainnet)
+  explorerUrl?: string;                    // Meson Explorer base URL (defaults to the network's explorer)
+  verifySwap?: boolean;                    // Check encoded swaps before signing (default true)
+  feeLimits?: FeeLimits;                   // Refuse swaps whose relayer fee is above these limits
+  registry?: ContractRegistry;             // Where deployed TransferToMeson contracts are recorded and looked up
+}
+
+/**
+ * A transfer of `amount` from `from` to `to`, both as chain:token
+ */
+export interface SwapRequest {
+  from: string;
+  to: string;
+  amount: string;
+  recipient: string;
+}
+
+export interface ValidatedRoute {
+  sourceChain: Chain;
+  destinationChain: Chain;
+  sourceToken: Token;
+  destinationToken: Token;
+  amount: MesonAmount;
+}
+
+/**
+ * An encoded and verified swap, shown for confirmation before it is signed
+ */
+export interface SwapSummary extends SwapRequest {
+  fromAddress: string;
+  encoded: string;
+  fee: EncodeSwapResult['fee'];
+  netReceived: string;      // Amount minus the total fee
+  expireTs: number;         // Unix seconds
+}
+
+/**
+ * Decides whether an encoded swap may be signed
+ */
+export type SwapConfirmation = (summary: SwapSummary) => boolean | Promise<boolean>;
+
+export interface BridgeRequest extends SwapRequest {
+  signer: MesonSigner;
+  dryRun?: boolean;             // Encode and sign without submitting
+  confirm?: SwapConfirmation;   // Asked before signing; nothing is signed if it returns false
+}
+
+/**
+ * An encoded swap, verified and signed but not submitted yet
+ */
+export interface PreparedSwap extends SwapRequest {
+  fromAddress: string;
+  encoded: string;
+  fee: EncodeSwapResult['fee'];
+  netReceived: string;      // Amount minus the total fee
+  converted?: EncodeSwapResult['converted'];
+  signature: string;
+  checks?: SwapCheck[];     // Set when the swap was verified
+}
+
+export interface BridgeResult extends PreparedSwap {
+  dryRun: boolean;
+  swapId?: string;
+  explorerUrl?: string;
+}
+
+export interface ContractBridgeRequest extends SwapRequest {
+  signer: MesonSigner;
+  mesonContract?: string;     // Looked up from the chain data if omitted
+  transferContract?: string;  // Existing TransferToMeson contract
+  deployIfMissing?: boolean;  // Deploy a TransferToMeson contract if none is given
+  approve?: boolean;          // Send an ERC20 approval when the allowance is too low
+  dryRun?: boolean;           // Resolve and check everything without sending transactions
+  confirm?: SwapConfirmation; // Asked before any transaction; nothing is sent if it returns false
+}
+
+export interface TransferContractRequest {
+  chain: string;              // Meson chain id of the source chain
+  signer: MesonSigner;
+  mesonContract?: string;     // Looked up from the chain data if omitted
+}
+
+export interface TransferContractResult extends TransferContractDeployment {
+  chain: string;
+  chainId: string;            // EVM chain ID, in decimal
+  mesonContract: string;
+}
+
+export interface ContractBridgeResult extends SwapRequest {
+  dryRun: boolean;
+  fromAddress: string;
+  initiator?: string;
+  encoded: string;
+  fee: EncodeSwapResult['fee'];
+  netReceived: string;        // Amount minus the total fee
+  converted?: EncodeSwapResult['converted'];
+  checks?: SwapCheck[];
+  mesonContract: string;
+  transferContract?: string;
+  token: {
+    address: string;
+    symbol?: string;
+    decimals: number;
+    native: boolean;
+    amount: string;           // In token units
+  };
+  needsApproval: boolean;
+  simulated?: boolean;        // Dry runs: whether transferToMeson was simulated successfully
+  approveTxHash?: string;
+  txHash?: string;            // transferToMeson transaction
+  swapId?: string;
+  explorerUrl?: string;
+}
+
+export interface QuoteRequest {
+  from: string;
+  to?: string[];        // Explicit destination chain:token candidates
+  toPattern?: string;   // Destination pattern such as *:usdc
+  amount: string;
+  address?: string;     // Initiator used for encoding (defaults to a placeholder)
+  recipient?: string;
+}
+
+export interface MesonBridgeClient {
+  on(event: 'step', listener: (step: StepEvent, data: Record<string, unknown>) => void): this;
+  on(event: 'log', listener: (message: string) => void): this;
+  on(event: 'warning', listener: (message: string) => void): this;
+}
+
+/**
+ * Bridges tokens through MesonFi without the command line
+ *
+ * Progress is reported through events: `step` for each milestone (the same
+ * steps the CLI streams with --ndjson), `log` for human-readable progress and
+ * `warning` for problems that do not stop the swap. Chain data and swap
+ * limits are fetched once and cached; call `clearCache()` to refetch them.
+ */
+export class MesonBridgeClient extends EventEmitter {
+  readonly api: MesonApiService;
+  readonly network: string;
+  private contractService?: MesonContractService;
+  private registry?: ContractRegistry;
+  private explorerUrl: string;
+  private verifySwap: boolean;
+  private feeLimits: FeeLimits;
+  private chains?: Promise<Chain[]>;
+  private limits?: Promise<ChainLimit[]>;
+
+  constructor(options: MesonBridgeClientOptions = {}) {
+    super();
+    this.api = options.api || new MesonApiService();
+    this.network = options.network || DEFAULT_NETWORK;
+    this.contractService = options.contractService;
+    this.registry = options.registry;
+    this.explorerUrl = options.explorerUrl || (NETWORKS[this.network] || NETWORKS[DEFAULT_NETWORK]).explorerUrl;
+    this.verifySwap = options.verifySwap ?? true;
+    this.feeLimits = options.feeLimits || {};
+  }
+
+  /**
+   * Sets the source chain RPC used by later swaps, e.g. once the source
+   * chain of an interactively chosen route is known
+   */
+  setContractService(contractService?: MesonContractService): void {
+    this.contractService = contractService;
+  }
+
+  /**
+   * Supported chains, fetched on first use
+   */
+  getSupportedChains(): Promise<Chain[]> {
+    if (!this.chains) {
+      this.log('Fetching supported chains and tokens...');
+      this.chains = this.api.getSupportedChains();
+      this.chains.catch(() => { this.chains = undefined; });
+    }
+    return this.chains;
+  }
+
+  /**
+   * Swap limits, fetched on first use
+   */
+  getSwapLimits(): Promise<ChainLimit[]> {
+    if (!this.limits) {
+      this.log('Fetching swap limits...');
+      this.limits = this.api.getSwapLimits();
+      this.limits.catch(() => { this.limits = undefined; });
+    }
+    return this.limits;
+  }
+
+  /**
+   * Drops the cached chain data and swap limits
+   */
+  clearCache(): void {
+    this.chains = undefined;
+    this.limits = undefined;
+  }
+
+  /**
+   * Meson Explorer link of a swap
+   */
+  explorerLink(swapIdOrEncoded: string): string {
+    return explorerSwapUrl(this.explorerUrl, swapIdOrEncoded);
+  }
+
+  /**
+   * Checks that both chains and tokens are supported, the amount is within
+   * the limits of both the source and the destination token, and the
+   * recipient, if given, is an address of the destination chain
+   *
+   * @param request Route, amount and optional recipient to check
+   * @returns The matching chains and tokens, and the parsed amount
+   */
+  async validate(request: Pick<SwapRequest, 'from' | 'to' | 'amount'> & Partial<Pick<SwapRequest, 'recipient'>>): Promise<ValidatedRoute> {
+    const chains = await this.getSupportedChains();
+    const limits = await this.getSwapLimits();
+
+    const [fromChain, fromToken] = request.from.split(':');
+    const [toChain, toToken] = request.to.split(':');
+
+    validateChainToken(chains, fromChain, fromToken, 'source');
+    validateChainToken(chains, toChain, toToken, 'destination');
+
+    const amount = MesonAmount.parse(request.amount);
+    if (amount.isZero()) {
+      throw new ValidationError('Amount must be greater than 0.');
+    }
+    validateAmount(limits, fromChain, fromToken, amount, 'source', message => this.warn(message));
+    validateAmount(limits, toChain, toToken, amount, 'destination', message => this.warn(message));
+
+    const sourceChain = chains.find(c => c.id === fromChain)!;
+    const destinationChain = chains.find(c => c.id === toChain)!;
+    if (request.recipient !== undefined) {
+      validateRecipient(destinationChain, request.recipient);
+    }
+    return {
+      sourceChain,
+      destinationChain,
+      sourceToken: sourceChain.tokens.find(t => t.id === fromToken)!,
+      destinationToken: destinationChain.tokens.find(t => t.id === toToken)!,
+      amount
+    };
+  }
+
+  /**
+   * Bridges tokens by signing the swap and submitting it to the relayer
+   *
+   * If the client has a MesonContractService for the source chain, the
+   * source address must hold the amount before the swap is encoded.
+   *
+   * @param request Route, amount, recipient and signer
+   * @returns The signed swap, plus its swap ID unless this is a dry run
+   */
+  async bridge(request: BridgeRequest): Promise<BridgeResult> {
+    const { from, to, amount, recipient, signer } = request;
+
+    // --- 1. Resolve Signer ---
+    const fromAddress = await signer.getAddress();
+    this.log(`Using source address: ${fromAddress}`);
+
+    // --- 2. Validate ---
+    const route = await this.validate(request);
+    this.log('Input validation passed.');
+    this.step('validated', { from, to, amount, recipient, fromAddress });
+
+    if (this.contractService) {
+      await this.checkNetwork(this.contractService, route.sourceChain, route.sourceChain.address);
+      await this.checkTokenBalance(this.contractService, route, fromAddress);
+    }
+
+    // --- 3. Encode, Verify and Sign ---
+    const prepared = await this.prepare(request, signer, request.confirm);
+
+    if (request.dryRun) {
+      return { ...prepared, dryRun: true };
+    }
+
+    // --- 4. Submit ---
+    const { swapId, explorerUrl } = await this.submit(prepared);
+    return { ...prepared, dryRun: false, swapId, explorerUrl };
+  }
+
+  /**
+   * Encodes a swap through the relayer, verifies it and signs its hash
+   *
+   * Unless verification is disabled, nothing is signed if the swap or the hash
+   * to sign differ from what was requested. The signature must recover to the
+   * signer's address before it is returned.
+   *
+   * @param request Route, amount and recipient; not validated here
+   * @param signer The signer of the swap
+   * @param confirm Asked after verification; nothing is signed if it returns false
+   * @returns The signed swap, ready for `submit()`
+   */
+  async prepare(request: SwapRequest, signer: MesonSigner, confirm?: SwapConfirmation): Promise<PreparedSwap> {
+    const { from, to, amount, recipient } = request;
+    const fromAddress = await signer.getAddress();
+
+    this.log(`Encoding swap: ${amount} ${from} -> ${to} for ${recipient}`);
+    const encodedData = await this.api.encodeSwap(from, to, amount, fromAddress, recipient);
+
+    if (!encodedData.encoded || !encodedData.signingRequest) {
+      throw new MesonApiError('Failed to encode swap: missing required data in response');
+    }
+    const signingRequest = encodedData.signingRequest;
+
+    this.log(`Encoded Swap: ${encodedData.encoded}`);
+    const netReceived = this.netReceived(encodedData.fee, amount);
+    this.log(`Hash to sign: ${signingRequest.hash}`);
+    this.step('encoded', { encoded: encodedData.encoded, fee: encodedData.fee, netReceived, converted: encodedData.converted });
+
+    // Never sign a swap that differs from what was requested
+    let checks: SwapCheck[] | undefined;
+    if (this.verifySwap) {
+      checks = this.checkEncodedSwap(encodedData.encoded, request);
+
+      // Rebuild the hash to sign locally instead of trusting the relayer's
+      const scheme: SigningScheme = signingSchemeFrom(signingRequest.message, this.network === 'testnet');
+      const expectedHash = computeSigningHash(encodedData.encoded, recipient, scheme);
+      if (expectedHash.toLowerCase() !== signingRequest.hash.toLowerCase()) {
+        throw new ValidationError(
+          `Hash to sign from the relayer (${signingRequest.hash}) does not match the locally computed ` +
+          `${scheme.kind} hash (${expectedHash}). Refusing to sign.`
+        );
+      }
+      this.log(`Hash to sign verified (${scheme.kind} signature${scheme.testnet ? ', testnet' : ''}).`);
+    }
+
+    if (confirm) {
+      await this.confirmSwap(confirm, request, fromAddress, encodedData, netReceived);
+    }
+
+    this.log('Signing transaction...');
+    const signature = await signMessageHash(signingRequest.hash, signer);
+
+    // Make sure the signature recovers to the address the swap is submitted for
+    const recovered = recoverHashSigner(signingRequest.hash, signature);
+    if (recovered.toLowerCase() !== fromAddress.toLowerCase()) {
+      throw new ValidationError(`Signature recovers to ${recovered}, expected ${fromAddress}. Refusing to submit.`);
+    }
+
+    this.log(`Signature: ${signature.substring(0, 20)}...`);
+    this.step('signed', { signature });
+
+    return {
+      from,
+      to,
+      amount,
+      recipient,
+      fromAddress,
+      encoded: encodedData.encoded,
+      fee: encodedData.fee,
+      netReceived,
+      converted: encodedData.converted,
+      signature,
+      checks
+    };
+  }
+
+  /**
+   * Submits a signed swap to the relayer
+   *
+   * @param swap A swap returned by `prepare()`
+   * @returns The swap ID and its explorer link
+   */
+  async submit(swap: PreparedSwap): Promise<{ swapId: string, explorerUrl: string }> {
+    this.log('Submitting swap...');
+    const { swapId } = await this.api.submitSwap(swap.encoded, swap.fromAddress, swap.recipient, swap.signature);
+    const explorerUrl = this.explorerLink(swapId);
+    this.step('submitted', { swapId, explorerUrl });
+    return { swapId, explorerUrl };
+  }
+
+  /**
+   * Bridges tokens through a TransferToMeson contract on the source chain
+   *
+   * Native tokens are sent as transaction value; ERC20 tokens are pulled from
+   * the signer by the TransferToMeson contract, which must be approved first.
+   * After the transaction is mined the relayer is notified of it. If that
+   * fails, the `mined` step has already reported the transaction hash needed
+   * to retry with `api.submitSwapFromContract()`.
+   *
+   * The swap is encoded and checked (fee limits, source token, allowance,
+   * balances) and then confirmed before any transaction is sent; deploying a
+   * missing contract is the first of them.
+   *
+   * @param request Route, amount, recipient, signer and contract options
+   * @returns The resolved contracts and token, plus the transactions and swap ID unless this is a dry run
+   */
+  async bridgeViaContract(request: ContractBridgeRequest): Promise<ContractBridgeResult> {
+    const { from, to, amount, recipient, signer, deployIfMissing = false, approve = false, dryRun = false } = request;
+    const contractService = this.contractService;
+    if (!contractService) {
+      throw new ValidationError('Contract bridging needs a MesonContractService for the source chain.');
+    }
+
+    // --- 1. Resolve Signer ---
+    const fromAddress = await signer.getAddress();
+    this.log(`Using source address: ${fromAddress}`);
+
+    // --- 2. Validate ---
+    const route = await this.validate(request);
+    this.log('Input validation passed.');
+    this.step('validated', { from, to, amount, recipient, fromAddress });
+
+    // --- 3. Determine Meson and TransferToMeson contract addresses ---
+    const mesonContractAddress = await this.resolveMesonContract(route.sourceChain.id, request.mesonContract);
+    await this.checkNetwork(contractService, route.sourceChain, mesonContractAddress, signer);
+    await this.checkTokenBalance(contractService, route, fromAddress);
+    let fromContractAddress = request.transferContract;
+
+    // Reuse the contract recorded for this chain and wallet
+    if (!fromContractAddress) {
+      fromContractAddress = await this.findRegisteredContract(contractService, fromAddress, mesonContractAddress);
+    }
+    if (!fromContractAddress && !deployIfMissing) {
+      throw new ValidationError(
+        `No TransferToMeson contract is registered for ${fromAddress} on ${route.sourceChain.id}. ` +
+        'Pass one with --transfer-contract, or deploy one with --deploy-if-missing.'
+      );
+    }
+
+    // A contract still to be deployed lands at its CREATE2 address, so the swap
+    // can be encoded, checked and confirmed before anything is sent
+    const plannedContractAddress = !fromContractAddress && deployIfMissing
+      ? predictTransferToMesonAddress(fromAddress, mesonContractAddress)
+      : undefined;
+
+    // --- 4. Encode Swap with fromContract=true ---
+    this.log(`Encoding contract swap: ${amount} ${from} -> ${to} for ${recipient}`);
+    // The contract, not the wallet, is the sender of a contract swap
+    const encodingFromAddress = (fromContractAddress || plannedContractAddress)!;
+    this.log(`Using address for swap encoding: ${encodingFromAddress}`);
+
+    // The initiator should be the user's wallet address, while the fromAddress for encoding is the contract
+    const initiator = fromAddress;
+    this.log(`Using initiator address: ${initiator}`);
+
+    const encodedData = await this.api.encodeSwap(from, to, amount, encodingFromAddress, recipient, true);
+
+    // Manually set initiator if it's not already in the response
+    if (!encodedData.initiator) {
+      encodedData.initiator = initiator;
+    }
+
+    if (!encodedData.encoded) {
+      throw new MesonApiError('Failed to encode swap: missing required data in response');
+    }
+
+    this.log(`Encoded Swap: ${encodedData.encoded}`);
+    const netReceived = this.netReceived(encodedData.fee, amount);
+    this.log(`Initiator: ${encodedData.initiator}`);
+    this.step('encoded', { encoded: encodedData.encoded, fee: encodedData.fee, netReceived, converted: encodedData.converted, initiator: encodedData.initiator });
+
+    // The source token is checked on the Meson contract below, so its index need not be known
+    const checks = this.verifySwap ? this.checkEncodedSwap(encodedData.encoded, request, ['inToken']) : undefined;
+
+    if (encodedData.fromContract && encodedData.fromContract.toLowerCase() !== encodingFromAddress.toLowerCase()) {
+      this.warn(`Warning: The relayer returned fromContract ${encodedData.fromContract}, but the swap is sent from ${encodingFromAddress}. Ignoring it.`);
+    }
+
+    // --- 5. Resolve Source Token and Check Allowance ---
+    this.log('Resolving source token from the Meson contract...');
+    const swapToken = await contractService.getSwapToken(mesonContractAddress, encodedData.encoded);
+    const swapTokenLabel = swapToken.isNative ? 'native token' : (swapToken.symbol || swapToken.address);
+    const swapTokenAmount = ethers.formatUnits(swapToken.amount, swapToken.decimals);
+    this.log(`Source token: ${swapTokenLabel} (${swapToken.decimals} decimals), amount: ${swapTokenAmount}`);
+
+    // The token the contract will pull must be the one listed for the source chain:token
+    const expectedTokenAddress = route.sourceToken.addr;
+    if (this.verifySwap && expectedTokenAddress) {
+      if (isCoreToken(expectedTokenAddress) ? !swapToken.isNative : expectedTokenAddress.toLowerCase() !== swapToken.address.toLowerCase()) {
+        throw new ValidationError(
+          `Encoded swap uses token ${swapToken.address}, but ${from} is ${expectedTokenAddress}. Refusing to send the transaction.`
+        );
+      }
+    } else if (this.verifySwap && checks!.find(c => c.field === 'inToken')!.skipped) {
+      throw new ValidationError(
+        `${from} has no listed token address and no known Meson token index, so token ${swapToken.address} of the encoded swap ` +
+        'cannot be checked. Refusing to send the transaction. Pass --no-verify-swap to skip the checks.'
+      );
+    }
+
+    // ERC20 swaps are pulled from the wallet by the TransferToMeson contract,
+    // so it needs an allowance covering the encoded amount. A contract still
+    // to be deployed is checked (and approved) at its CREATE2 address.
+    let needsApproval = false;
+    if (!swapToken.isNative) {
+      const allowance = await contractService.getAllowance(swapToken.address, fromAddress, encodingFromAddress);
+      needsApproval = allowance < swapToken.amount;
+      this.log(`Allowance for ${encodingFromAddress}: ${ethers.formatUnits(allowance, swapToken.decimals)} ${swapTokenLabel}`);
+    }
+    if (needsApproval && !approve && !dryRun) {
+      throw new InsufficientFundsError(
+        `TransferToMeson contract ${encodingFromAddress} is not approved to spend ${swapTokenAmount} ${swapTokenLabel}. ` +
+        `Re-run with --approve, or call approve(${encodingFromAddress}, ${swapToken.amount}) on token ${swapToken.address} yourself.`
+      );
+    }
+
+    const result: ContractBridgeResult = {
+      dryRun,
+      from,
+      to,
+      amount,
+      recipient,
+      fromAddress,
+      initiator: encodedData.initiator,
+      encoded: encodedData.encoded,
+      fee: encodedData.fee,
+      netReceived,
+      converted: encodedData.converted,
+      checks,
+      mesonContract: mesonContractAddress,
+      transferContract: fromContractAddress,
+      token: {
+        address: swapToken.address,
+        symbol: swapToken.symbol,
+        decimals: swapToken.decimals,
+        native: swapToken.isNative,
+        amount: swapTokenAmount
+      },
+      needsApproval
+    };
+
+    // --- 6. Check the Gas Cost Cap and That the Native Balance Covers the Value and Gas ---
+    // A contract already deployed at the CREATE2 address but not registered is reused without a transaction
+    const deploy = !!plannedContractAddress && await contractService.getCode(plannedContractAddress) === '0x';
+    await this.checkGasCosts(contractService, route.sourceChain, encodedData, result, swapToken, encodingFromAddress, deploy, approve);
+
+    // --- 7. Confirm Once Everything Has Been Checked ---
+    if (request.confirm) {
+      await this.confirmSwap(request.confirm, request, fromAddress, encodedData, netReceived);
+    }
+
+    // --- 8. Execute Contract Call (or simulate it for a dry run) ---
+    if (dryRun) {
+      result.simulated = await this.simulateContractCall(contractService, encodedData, result, swapToken.isNative ? swapToken.amount : BigInt(0));
+      return result;
+    }
+
+    // Deploying is the first transaction, sent only once nothing else can stop the swap
+    if (plannedContractAddress) {
+      const deployment = await this.deployContract(contractService, route.sourceChain, mesonContractAddress, signer);
+      if (deployment.address.toLowerCase() !== plannedContractAddress.toLowerCase()) {
+        throw new ValidationError(
+          `TransferToMeson contract was deployed at ${deployment.address}, but the swap was encoded for ${plannedContractAddress}. ` +
+          'Refusing to send the transaction.'
+        );
+      }
+      fromContractAddress = deployment.address;
+      result.transferContract = fromContractAddress;
+    }
+
+    if (needsApproval) {
+      this.log(`Approving ${encodingFromAddress} to spend ${swapTokenAmount} ${swapTokenLabel}...`);
+      result.approveTxHash = await contractService.approveToken(
+        swapToken.address, encodingFromAddress, swapToken.amount, signer, (action, estimate) => this.reportGas(action, estimate)
+      );
+      this.log(`Approval Transaction Hash: ${result.approveTxHash}`);
+      this.step('approved', { txHash: result.approveTxHash });
+    }
+
+    this.log(`Submitting transaction using TransferToMeson contract...`);
+    result.txHash = await contractService.callTransferToMeson(
+      mesonContractAddress,
+      encodedData,
+      signer,
+      fromContractAddress,
+      (action, estimate) => this.reportGas(action, estimate)
+    );
+
+    this.log('\nTransaction submitted successfully!');
+    this.log(`Transaction Hash: ${result.txHash}`);
+    this.step('mined', { txHash: result.txHash, encoded: result.encoded, transferContract: fromContractAddress });
+
+    // --- 9. Notify Relayer of the Mined Transaction ---
+    this.log('Submitting contract swap to the relayer...');
+    const { swapId } = await this.api.submitSwapFromContract(encodedData.encoded, result.txHash);
+    result.swapId = swapId;
+    result.explorerUrl = this.explorerLink(swapId);
+    this.step('submitted', { swapId, explorerUrl: result.explorerUrl });
+
+    return result;
+  }
+
+  /**
+   * Deploys the signer's TransferToMeson contract on a chain through CREATE2
+   *
+   * The contract address is predictable (see `predictTransferToMesonAddress`);
+   * if a contract is already deployed there it is reused. Either way it is
+   * recorded in the registry, if the client has one.
+   *
+   * @param request Chain, signer and optional Meson contract address
+   * @returns The contract address, chain and deployment transaction
+   */
+  async deployTransferContract(request: TransferContractRequest): Promise<TransferContractResult> {
+    const contractService = this.contractService;
+    if (!contractService) {
+      throw new ValidationError('Deploying a TransferToMeson contract needs a MesonContractService for the chain.');
+    }
+
+    const chain = (await this.getSupportedChains()).find(c => c.id === request.chain);
+    if (!chain) {
+      throw new ValidationError(`Chain '${request.chain}' is not supported.`);
+    }
+
+    const mesonContract = await this.resolveMesonContract(chain.id, request.mesonContract);
+    await this.checkNetwork(contractService, chain, mesonContract, request.signer);
+    return this.deployContract(contractService, chain, mesonContract, request.signer);
+  }
+
+  /**
+   * Quotes fees for one or more routes, ranked by total fee
+   *
+   * @param request Source, destination candidates and amount
+   * @returns One quote per destination, cheapest first; rejected routes last
+   */
+  async quote(request: QuoteRequest): Promise<RouteQuote[]> {
+    const { from, to, toPattern, amount } = request;
+    const address = request.address || QUOTE_PLACEHOLDER_ADDRESS;
+    const recipient = request.recipient || address;
+
+    if (!ethers.isAddress(address) || !ethers.isAddress(recipient)) {
+      throw new ValidationError('--address and --recipient must be valid addresses.');
+    }
+
+    MesonAmount.parse(amount);
+    const chains = await this.getSupportedChains();
+
+    const [fromChain, fromToken] = from.split(':');
+    validateChainToken(chains, fromChain, fromToken, 'source');
+
+    for (const candidate of to || []) {
+      const [toChain, toToken] = candidate.split(':');
+      validateChainToken(chains, toChain, toToken, 'destination');
+    }
+
+    const destinations = expandDestinations(chains, from, to, toPattern);
+    this.log(`Quoting ${amount} ${from} to ${destinations.length} destination(s)...`);
+
+    return quoteRoutes(this.api, from, destinations, amount, address, recipient);
+  }
+
+  /**
+   * Checks that the source address holds the amount of the source token
+   *
+   * The token is the `addr` listed for the source chain:token; the chain's
+   * core token is checked against the native balance.
+   */
+  private async checkTokenBalance(contractService: MesonContractService, route: ValidatedRoute, fromAddress: string): Promise<void> {
+    const { sourceChain, sourceToken, amount } = route;
+    if (!sourceToken.addr) {
+      this.warn(`Warning: No token address listed for ${sourceChain.id}:${sourceToken.id}. Skipping the balance check.`);
+      return;
+    }
+    if (!ethers.isAddress(sourceToken.addr)) {
+      this.warn(`Warning: ${sourceChain.id}:${sourceToken.id} is listed at ${sourceToken.addr}, which is not an EVM address. Skipping the balance check.`);
+      return;
+    }
+
+    if (isCoreToken(sourceToken.addr)) {
+      const balance = await contractService.getBalance(fromAddress);
+      const required = amount.toTokenUnits(18);
+      this.log(`Native balance of ${fromAddress}: ${ethers.formatEther(balance)}`);
+      assertBalance(`${sourceToken.id.toUpperCase()} balance on ${sourceChain.id}`, balance, required, 18);
+      return;
+    }
+
+    const { balance, decimals, symbol } = await contractService.getTokenBalance(sourceToken.addr, fromAddress);
+    const required = amount.toTokenUnits(decimals);
+    this.log(`${symbol || sourceToken.id} balance of ${fromAddress}: ${ethers.formatUnits(balance, decimals)}`);
+    assertBalance(`${symbol || sourceToken.id.toUpperCase()} balance on ${sourceChain.id}`, balance, required, decimals);
+  }
+
+  /**
+   * Estimates the transactions a contract swap is about to send, deployment
+   * included, and checks their total fee against --max-gas-cost and the
+   * native balance against the value plus their gas
+   *
+   * Gas is counted at the fee cap for the balance, as nodes require that
+   * much to accept a transaction. A transferToMeson call that cannot be
+   * estimated yet (no contract or allowance, or a revert left to the
+   * simulation to report) is not counted; the contract service checks the
+   * running total again as each transaction is sent.
+   *
+   * @param transferContract The TransferToMeson contract, or the address it is about to be deployed at
+   * @param deploy Whether the contract still has to be deployed
+   */
+  private async checkGasCosts(
+    contractService: MesonContractService,
+    chain: Chain,
+    encodedSwap: EncodeSwapResult,
+    result: ContractBridgeResult,
+    swapToken: SwapTokenInfo,
+    transferContract: string,
+    deploy: boolean,
+    approve: boolean
+  ): Promise<void> {
+    const { fromAddress } = result;
+    const value = swapToken.isNative ? swapToken.amount : BigInt(0);
+    const estimates: { action: string, estimate: GasEstimate }[] = [];
+    let complete = true;
+
+    if (deploy) {
+      estimates.push({ action: 'deployment', estimate: await contractService.estimateDeploymentCost(result.mesonContract, fromAddress) });
+    }
+
+    if (result.needsApproval) {
+      if (approve) {
+        estimates.push({
+          action: 'approval',
+          estimate: await contractService.estimateApprovalCost(swapToken.address, transferContract, swapToken.amount, fromAddress)
+        });
+      }
+      complete = false;
+    } else if (!deploy) {
+      try {
+        estimates.push({
+          action: 'transferToMeson',
+          estimate: await contractService.estimateTransferToMesonCost(transferContract, encodedSwap, fromAddress, value)
+        });
+      } catch (error) {
+        if (!(error instanceof ContractRevertError)) {
+          throw error;
+        }
+        complete = false;
+      }
+    } else {
+      complete = false;
+    }
+
+    const incomplete = complete ? '' : ' (without the gas of transactions that cannot be estimated yet)';
+    const cost = estimates.reduce((sum, { estimate }) => sum + estimate.cost, BigInt(0));
+    const gas = estimates.reduce((sum, { estimate }) => sum + estimate.maxCost, BigInt(0));
+    if (estimates.length > 0) {
+      const parts = estimates.map(({ action, estimate }) => `${action} ${ethers.formatEther(estimate.cost)}`).join(' + ');
+      this.log(`Estimated fees of the transactions to send: ${parts} = ${ethers.formatEther(cost)}${incomplete}`);
+    }
+    contractService.checkGasCost(estimates.map(({ estimate }) => estimate), `the transactions of this swap${incomplete}`);
+
+    const balance = await contractService.getBalance(fromAddress);
+    this.log(`Native balance of ${fromAddress}: ${ethers.formatEther(balance)}, needed: ${ethers.formatEther(value + gas)}${incomplete}`);
+    assertBalance(
+      `native balance on ${chain.id} for the swap and gas`,
+      balance,
+      value + gas,
+      18,
+      `${ethers.formatEther(value)} swap value + ${ethers.formatEther(gas)} gas at the fee cap`
+    );
+  }
+
+  /**
+   * Logs the fee and computes what the recipient receives; the fee is
+   * deducted from the amount, so it must leave something, and it must be
+   * within the configured fee limits
+   */
+  private netReceived(fee: EncodeSwapResult['fee'], amount: string): string {
+    const gross = MesonAmount.parse(amount);
+    const totalFee = MesonAmount.fromRelayer(fee.totalFee, 'Fee');
+    if (totalFee.cmp(gross) >= 0) {
+      throw new ValidationError(`The total fee of ${totalFee} is not less than the amount ${gross}; the recipient would receive nothing.`);
+    }
+
+    const net = gross.sub(totalFee).toString();
+    this.log(`Fee: ${totalFee} (service ${fee.serviceFee}, LP ${fee.lpFee}), recipient receives ${net}`);
+    assertFeeLimits(totalFee, gross, this.feeLimits);
+    return net;
+  }
+
+  /**
+   * Shows an encoded swap to the confirmation hook
+   *
+   * @throws ValidationError if the swap is not confirmed
+   */
+  private async confirmSwap(
+    confirm: SwapConfirmation,
+    request: SwapRequest,
+    fromAddress: string,
+    encodedSwap: EncodeSwapResult,
+    netReceived: string
+  ): Promise<void> {
+    const { from, to, amount, recipient } = request;
+    const summary: SwapSummary = {
+      from,
+      to,
+      amount,
+      recipient,
+      fromAddress,
+      encoded: encodedSwap.encoded,
+      fee: encodedSwap.fee,
+      netReceived,
+      expireTs: decodeEncodedSwap(encodedSwap.encoded).expireTs
+    };
+    if (!await confirm(summary)) {
+      throw new ValidationError('Swap not confirmed. Nothing was signed or sent.');
+    }
+  }
+
+  /**
+   * Simulates the transferToMeson call of a dry run, if it can succeed yet
+   *
+   * @returns Whether the call was simulated; it is skipped while the contract is not deployed or not approved
+   * @throws ContractRevertError if the simulation reverts
+   */
+  private async simulateContractCall(
+    contractService: MesonContractService,
+    encodedSwap: EncodeSwapResult,
+    result: ContractBridgeResult,
+    value: bigint
+  ): Promise<boolean> {
+    if (!result.transferContract) {
+      this.log('transferToMeson not simulated: the TransferToMeson contract is not deployed yet.');
+      return false;
+    }
+    if (result.needsApproval) {
+      this.log('transferToMeson not simulated: the TransferToMeson contract is not approved yet.');
+      return false;
+    }
+
+    this.log('Simulating transferToMeson...');
+    await contractService.simulateTransferToMeson(result.transferContract, encodedSwap, result.fromAddress, value);
+    this.log('Simulation succeeded: the transferToMeson transaction would not revert.');
+    return true;
+  }
+
+  /**
+   * Deploys (or finds) the signer's TransferToMeson contract and records it
+   */
+  private async deployContract(
+    contractService: MesonContractService,
+    chain: Chain,
+    mesonContract: string,
+    signer: MesonSigner
+  ): Promise<TransferContractResult> {
+    this.log('Deploying TransferToMeson contract...');
+    const deployment = await contractService.deployTransferToMesonContract(mesonContract, signer, (action, estimate) => this.reportGas(action, estimate));
+    if (deployment.reused) {
+      this.log(`TransferToMeson contract already deployed at: ${deployment.address}`);
+    } else {
+      this.log(`Deployed new TransferToMeson contract at: ${deployment.address}`);
+    }
+    this.step('deployed', { transferContract: deployment.address, txHash: deployment.txHash, reused: deployment.reused });
+
+    const result: TransferContractResult = { ...deployment, chain: chain.id, chainId: String(await contractService.getChainId()), mesonContract };
+    this.recordContract({
+      chain: result.chain,
+      chainId: result.chainId,
+      owner: deployment.owner,
+      mesonContract,
+      address: deployment.address,
+      salt: deployment.salt,
+      txHash: deployment.txHash,
+      deployedAt: new Date().toISOString()
+    });
+    return result;
+  }
+
+  /**
+   * Checks that the RPC endpoint and the signer are on the chain's network
+   * and that the Meson contract is deployed there, before any transaction is sent
+   */
+  private async checkNetwork(contractService: MesonContractService, chain: Chain, mesonContract: string, signer?: MesonSigner): Promise<void> {
+    let expectedChainId: bigint;
+    try {
+      expectedChainId = BigInt(chain.chainId);
+    } catch {
+      throw new ValidationError(`Chain '${chain.id}' has no EVM chain ID (${chain.chainId}) and cannot be used for contract transactions.`);
+    }
+
+    const chainId = await contractService.getChainId();
+    if (chainId !== expectedChainId) {
+      throw new ValidationError(
+        `The RPC endpoint is on chain ID ${chainId}, but ${chain.id} is chain ID ${expectedChainId}. Check --rpc-url.`
+      );
+    }
+
+    // A remote signer broadcasts on its own endpoint, which must be on the same chain
+    const signerChainId = await signer?.getChainId();
+    if (signerChainId !== undefined && signerChainId !== expectedChainId) {
+      throw new ValidationError(
+        `The ${signer!.kind} signer is on chain ID ${signerChainId}, but ${chain.id} is chain ID ${expectedChainId}. Check --signer.`
+      );
+    }
+
+    if (await contractService.getCode(mesonContract) === '0x') {
+      throw new ValidationError(`There is no contract at the Meson address ${mesonContract} on ${chain.id} (chain ID ${chainId}).`);
+    }
+
+    this.log(`RPC endpoint is on ${chain.id} (chain ID ${chainId}) and the Meson contract is deployed.`);
+  }
+
+  /**
+   * Resolves the Meson contract of a chain, unless one is given
+   */
+  private async resolveMesonContract(chain: string, mesonContract?: string): Promise<string> {
+    if (mesonContract) {
+      this.log(`Using meson contract address from --meson-contract parameter: ${mesonContract}`);
+      return mesonContract;
+    }
+
+    this.log('No meson contract address provided, looking up from address field in chain data...');
+    const foundAddress = findContractAddress(await this.getSupportedChains(), chain);
+    if (!foundAddress) {
+      throw new ValidationError(`Could not find Meson contract address for chain ${chain}. Please provide it with --meson-contract option.`);
+    }
+
+    this.log(`Found Meson contract address for ${chain}: ${foundAddress} (from chain data address field)`);
+    return foundAddress;
+  }
+
+  /**
+   * Looks up the registered TransferToMeson contract of a wallet, skipping
+   * entries whose code is no longer the bundled contract
+   */
+  private async findRegisteredContract(contractService: MesonContractService, owner: string, mesonContract: string): Promise<string | undefined> {
+    if (!this.registry) {
+      return undefined;
+    }
+
+    const entry = this.registry.find(await contractService.getChainId(), owner, mesonContract);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (!isTransferToMesonCode(await contractService.getCode(entry.address))) {
+      this.warn(`Warning: Registered TransferToMeson contract ${entry.address} does not hold the bundled contract code. Ignoring it.`);
+      return undefined;
+    }
+
+    this.log(`Using TransferToMeson contract from the registry: ${entry.address}`);
+    return entry.address;
+  }
+
+  /**
+   * Records a contract in the registry; failures are only warned about
+   */
+  private recordContract(entry: RegistryEntry): void {
+    if (!this.registry) {
+      return;
+    }
+
+    try {
+      this.registry.record(entry);
+    } catch (error) {
+      this.warn(`Warning: Could not record contract in the registry: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Reports the gas settings and estimated fee of a transaction about to be sent
+   */
+  private reportGas(action: string, estimate: GasEstimate): void {
+    this.log(`Estimated fee for ${action}: ${formatGasEstimate(estimate)}`);
+    this.step('gas', { action, ...estimate });
+  }
+
+  /**
+   * Verifies an encoded swap against the request and logs the checks
+   *
+   * Tokens without a known Meson index fail closed: the swap is refused
+   * unless the caller checks that field itself (`checkedElsewhere`).
+   */
+  private checkEncodedSwap(encoded: string, request: Pick<SwapRequest, 'from' | 'to' | 'amount'>, checkedElsewhere: string[] = []): SwapCheck[] {
+    const { checks } = assertEncodedSwap(encoded, request);
+    this.log('Encoded swap verified against the request:');
+    for (const check of checks) {
+      this.log(`  ${check.field}: ${check.skipped ? `not checked, ${check.expected}` : check.actual}`);
+    }
+
+    const unchecked = checks.filter(c => c.skipped && c.field.endsWith('Token') && !checkedElsewhere.includes(c.field));
+    if (unchecked.length > 0) {
+      const details = unchecked.map(c => `${c.field} ${c.actual} for ${c.expected.replace(' (unknown code)', '')}`).join(', ');
+      throw new ValidationError(
+        `No known Meson token index to check ${details} of the encoded swap. Refusing to continue. ` +
+        'Pass --no-verify-swap to skip the checks.'
+      );
+    }
+    return checks;
+  }
+
+  private step(event: StepEvent, data: Record<string, unknown>): void {
+    this.emit('step', event, data);
+  }
+
+  private log(message: string): void {
+    this.emit('log', message);
+  }
+
+  private warn(message: string): void {
+    this.emit('warning', message);
+  }
+}
+
+/**
+ * Whether a listed token address is Meson's placeholder for the chain's core token;
+ * addresses in other formats (e.g. Tron base58) never are
+ */
+function isCoreToken(address: string): boolean {
+  return ethers.isHexString(address) && address.length > 2 && BigInt(address) <= BigInt(1);
+}
+
+/**
+ * Throws an InsufficientFundsError with the shortfall if the balance is below the required amount
+ */
+function assertBalance(label: string, balance: bigint, required: bigint, decimals: number, breakdown?: string): void {
+  if (balance >= required) {
+    return;
+  }
+  throw new InsufficientFundsError(
+    `Insufficient ${label}: ${ethers.formatUnits(balance, decimals)} held, ${ethers.formatUnits(required, decimals)} required` +
+    `${breakdown ? ` (${breakdown})` : ''}, short by ${ethers.formatUnits(required - balance, decimals)}.`
+  );
+}
@@ -0,0 +1,157 @@
+import { MesonApiOptions } from './types';
+import { ValidationError } from './errors';
+
+export interface NetworkPreset {
+  apiUrl: string;
+  explorerUrl: string;
+}
+
+// Relayer and explorer endpoints of the public Meson deployments
+export const NETWORKS: Record<string, NetworkPreset> = {
+  mainnet: {
+    apiUrl: 'https://relayer.meson.fi/api/v1',
+    explorerUrl: 'https://explorer.meson.fi'
+  },
+  testnet: {
+    apiUrl: 'https://testnet-relayer.meson.fi/api/v1',
+    explorerUrl: 'https://testnet-explorer.meson.fi'
+  }
+};
+
+export const DEFAULT_NETWORK = 'mainnet';
+
+// Public mainnet RPC endpoints used when --rpc-url is not given, by Meson chain id.
+// Override one with the MESON_RPC_URL_<CHAIN> env var (e.g. MESON_RPC_URL_ETH).
+export const DEFAULT_RPC_URLS: Record<string, string> = {
+  eth: 'https://ethereum-rpc.publicnode.com',
+  bnb: 'https://bsc-dataseed.bnbchain.org',
+  bsc: 'https://bsc-dataseed.bnbchain.org',
+  polygon: 'https://polygon-rpc.com',
+  avax: 'https://api.avax.network/ext/bc/C/rpc',
+  arb: 'https://arb1.arbitrum.io/rpc',
+  opt: 'https://mainnet.optimism.io',
+  ftm: 'https://rpc.ftm.tools',
+  zksync: 'https://mainnet.era.zksync.io',
+  base: 'https://mainnet.base.org',
+  linea: 'https://rpc.linea.build'
+};
+
+/**
+ * Endpoint options as given on the command line
+ */
+export interface NetworkOptions {
+  network?: string;
+  apiUrl?: string;
+  explorerUrl?: string;
+  apiKey?: string;
+  header?: string[];  // Extra headers as "Name: value"
+  proxy?: string;
+  requestTimeout?: string;  // Milliseconds
+  retries?: string;
+  retrySubmit?: boolean;
+}
+
+/**
+ * Resolved endpoint configuration
+ */
+export interface ApiConfig extends MesonApiOptions {
+  network: string;
+  baseUrl: string;
+  explorerUrl: string;
+}
+
+/**
+ * Parses "Name: value" header strings into a header map
+ */
+function parseHeaders(headers: string[] = []): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const header of headers) {
+    const separator = header.indexOf(':');
+    if (separator <= 0) {
+      throw new ValidationError(`Invalid header '${header}'. Expected "Name: value".`);
+    }
+    result[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+  }
+  return result;
+}
+
+/**
+ * Parses a non-negative integer option, returning undefined when unset
+ */
+function parseCount(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ValidationError(`${name} must be a non-negative integer, got '${value}'.`);
+  }
+  return parsed;
+}
+
+/**
+ * Resolves the relayer and explorer endpoints and transport settings
+ *
+ * Each setting is taken from the command line first, then from the
+ * environment (MESON_NETWORK, MESON_API_URL, MESON_EXPLORER_URL,
+ * MESON_API_KEY, MESON_PROXY, MESON_REQUEST_TIMEOUT, MESON_RETRIES),
+ * then from the selected network preset or the transport defaults.
+ *
+ * @param options Endpoint options from the command line
+ * @param env Environment variables to read (defaults to process.env)
+ * @returns The resolved configuration
+ */
+export function resolveApiConfig(options: NetworkOptions = {}, env: NodeJS.ProcessEnv = process.env): ApiConfig {
+  const network = options.network || env.MESON_NETWORK || DEFAULT_NETWORK;
+  const preset = NETWORKS[network];
+  if (!preset) {
+    throw new ValidationError(`Unknown network '${network}'. Supported networks: ${Object.keys(NETWORKS).join(', ')}.`);
+  }
+
+  return {
+    network,
+    baseUrl: (options.apiUrl || env.MESON_API_URL || preset.apiUrl).replace(/\/+$/, ''),
+    explorerUrl: (options.explorerUrl || env.MESON_EXPLORER_URL || preset.explorerUrl).replace(/\/+$/, ''),
+    apiKey: options.apiKey || env.MESON_API_KEY,
+    headers: parseHeaders(options.header),
+    proxy: options.proxy || env.MESON_PROXY,
+    timeoutMs: parseCount(options.requestTimeout || env.MESON_REQUEST_TIMEOUT, '--request-timeout'),
+    maxRetries: parseCount(options.retries || env.MESON_RETRIES, '--retries'),
+    retrySubmit: !!options.retrySubmit
+  };
+}
+
+/**
+ * Builds the explorer link for a swap
+ */
+export function explorerSwapUrl(explorerUrl: string, swapIdOrEncoded: string): string {
+  return `${explorerUrl}/swap/${swapIdOrEncoded}`;
+}
+
+/**
+ * Name of the env var overriding the default RPC URL of a chain
+ */
+export function rpcUrlEnvVar(chain: string): string {
+  return `MESON_RPC_URL_${chain.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Resolves the RPC URL of a chain
+ *
+ * Taken from --rpc-url first, then from MESON_RPC_URL_<CHAIN>, then from
+ * DEFAULT_RPC_URLS. The defaults are mainnet endpoints, so they are only
+ * used on mainnet.
+ *
+ * @param chain Meson chain id (e.g., eth)
+ * @param option RPC URL from the command line
+ * @param network Meson network the chain belongs to (defaults to mainnet)
+ * @param env Environment variables to read (defaults to process.env)
+ */
+export function resolveRpcUrl(chain: string, option?: string, network = DEFAULT_NETWORK, env: NodeJS.ProcessEnv = process.env): string {
+  const rpcUrl = option || env[rpcUrlEnvVar(chain)] || (network === 'mainnet' ? DEFAULT_RPC_URLS[chain] : undefined);
+  if (!rpcUrl) {
+    const where = network === 'mainnet' ? `chain '${chain}'` : `chain '${chain}' on ${network}`;
+    throw new ValidationError(`No default RPC URL for ${where}. Provide one with --rpc-url or ${rpcUrlEnvVar(chain)}.`);
+  }
+  return rpcUrl;
+}
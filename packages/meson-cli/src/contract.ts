@@ -1,6 +1,11 @@
 import { ethers } from 'ethers';
 import { EncodeSwapResult, Chain } from './types';
 import * as TransferToMesonContract from './TransferToMesonContract.json';
+import { decodeEncodedSwap } from './encoded-swap';
+import { MesonAmount } from './amount';
+import { MesonSigner } from './signers';
+import { MesonCliError, ContractRevertError, InsufficientFundsError, NetworkError, ValidationError } from './errors';
+import { GasOptions, GasEstimate, estimateGasCost, assertGasCost, formatGasEstimate } from './gas';
 
 // Meson minimal interface ABI
 const MESON_CONTRACT_ABI = [
@@ -28,9 +33,93 @@ const MESON_CONTRACT_ABI = [
   }
 ];
 
+// Minimal ERC20 ABI used for source token lookups and approvals
+const ERC20_ABI = [
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [
+      { "internalType": "uint8", "name": "", "type": "uint8" }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [
+      { "internalType": "string", "name": "", "type": "string" }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "account", "type": "address" }
+    ],
+    "name": "balanceOf",
+    "outputs": [
+      { "internalType": "uint256", "name": "", "type": "uint256" }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "owner", "type": "address" },
+      { "internalType": "address", "name": "spender", "type": "address" }
+    ],
+    "name": "allowance",
+    "outputs": [
+      { "internalType": "uint256", "name": "", "type": "uint256" }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "address", "name": "spender", "type": "address" },
+      { "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "approve",
+    "outputs": [
+      { "internalType": "bool", "name": "", "type": "bool" }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
+// Custom errors of OpenZeppelin 5 ERC20 tokens (IERC20Errors), which the
+// TransferToMeson contract bubbles up from transferFrom
+const ERC20_ERRORS = [
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)'
+];
+
+// Meson returns this placeholder address for the chain's core (gas) token
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000001';
+
 // Get TransferToMeson contract from the JSON file
 const TRANSFER_TO_MESON_ABI = TransferToMesonContract.abi;
 const TRANSFER_TO_MESON_BYTECODE = TransferToMesonContract.data.bytecode;
+const TRANSFER_TO_MESON_RUNTIME_CODE = '0x' + TransferToMesonContract.data.deployedBytecode.object.toLowerCase();
+
+// Everything a transferToMeson call can revert with: require messages and
+// panics are built in, custom errors come from the contracts it calls
+const REVERT_INTERFACE = new ethers.Interface([
+  ...TRANSFER_TO_MESON_ABI,
+  ...MESON_CONTRACT_ABI,
+  ...ERC20_ERRORS
+]);
+
+// Deterministic deployment proxy (github.com/Arachnid/deterministic-deployment-proxy),
+// available at this address on most EVM chains. Called with salt ++ init code.
+export const CREATE2_FACTORY_ADDRESS = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
 
 /**
  * Utility function to find the Meson contract address for a specific chain
@@ -47,13 +136,185 @@ export function findContractAddress(chains: Chain[], chainId: string): string |
   return chain.address;
 }
 
+/**
+ * CREATE2 salt of the TransferToMeson contract of a wallet
+ * 
+ * @param owner The wallet the contract is deployed for
+ * @param mesonContractAddress The Meson contract it forwards swaps to
+ * @returns The salt as a 32-byte hex string
+ */
+export function transferToMesonSalt(owner: string, mesonContractAddress: string): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['address', 'address'], [owner, mesonContractAddress]));
+}
+
+/**
+ * Init code of a TransferToMeson contract: the bundled bytecode followed by
+ * the Meson contract address as constructor argument
+ */
+function transferToMesonInitCode(mesonContractAddress: string): string {
+  return ethers.concat([
+    '0x' + TRANSFER_TO_MESON_BYTECODE.object,
+    ethers.AbiCoder.defaultAbiCoder().encode(['address'], [mesonContractAddress])
+  ]);
+}
+
+/**
+ * Transaction deploying the TransferToMeson contract of a wallet through the CREATE2 factory
+ */
+function transferToMesonDeployment(owner: string, mesonContractAddress: string): ethers.TransactionRequest {
+  return {
+    to: CREATE2_FACTORY_ADDRESS,
+    data: ethers.concat([transferToMesonSalt(owner, mesonContractAddress), transferToMesonInitCode(mesonContractAddress)])
+  };
+}
+
+/**
+ * Predicts the address `deployTransferToMesonContract` deploys to
+ * 
+ * The address only depends on the owner and the Meson contract, so it is
+ * the same on every chain where both are the same.
+ * 
+ * @param owner The wallet the contract is deployed for
+ * @param mesonContractAddress The Meson contract it forwards swaps to
+ * @returns The checksummed contract address
+ */
+export function predictTransferToMesonAddress(owner: string, mesonContractAddress: string): string {
+  return ethers.getCreate2Address(
+    CREATE2_FACTORY_ADDRESS,
+    transferToMesonSalt(owner, mesonContractAddress),
+    ethers.keccak256(transferToMesonInitCode(mesonContractAddress))
+  );
+}
+
+/**
+ * Whether deployed code is the bundled TransferToMeson contract
+ * 
+ * The contract has no immutables, so its runtime code does not depend on
+ * the constructor argument.
+ */
+export function isTransferToMesonCode(code: string): boolean {
+  return code.toLowerCase() === TRANSFER_TO_MESON_RUNTIME_CODE;
+}
+
+/**
+ * Converts the amount stored in an encoded swap to the token's own decimals.
+ * Mirrors `_amountFrom` in TransferToMesonContract: Meson always encodes
+ * amounts with 6 decimals.
+ * 
+ * @param encodedSwap The encoded swap as a hex string
+ * @param tokenDecimals Decimals of the source token
+ * @returns The amount in the token's smallest unit
+ */
+export function amountFromEncodedSwap(encodedSwap: string, tokenDecimals: number): bigint {
+  return MesonAmount.fromUnits(decodeEncodedSwap(encodedSwap).amount).toTokenUnits(tokenDecimals);
+}
+
+/**
+ * Decodes the revert data of a failed call into a readable reason
+ * 
+ * `Error(string)` gives its message, panics and custom errors are shown as
+ * calls, e.g. `ERC20InsufficientAllowance(0x..., 0, 1000000)`.
+ * 
+ * @param data Revert data returned by the node
+ * @returns The reason, or undefined if the data matches no known error
+ */
+export function decodeRevertReason(data: string | null | undefined): string | undefined {
+  if (!data || data === '0x') {
+    return undefined;
+  }
+
+  let decoded: ethers.ErrorDescription | null;
+  try {
+    decoded = REVERT_INTERFACE.parseError(data);
+  } catch {
+    return undefined;
+  }
+  if (!decoded) {
+    return undefined;
+  }
+
+  if (decoded.name === 'Error') {
+    return String(decoded.args[0]);
+  }
+  return `${decoded.name}(${decoded.args.map(arg => arg.toString()).join(', ')})`;
+}
+
+/**
+ * Converts an ethers error into the matching typed CLI error
+ * 
+ * @param error The error thrown by ethers
+ * @param action Description of the failed action, used in the message
+ * @returns A typed error, or the original error if it is not recognized
+ */
+function toContractError(error: unknown, action: string): unknown {
+  if (error instanceof MesonCliError) {
+    return error;
+  }
+  
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    const reason = error.reason ?? decodeRevertReason(error.data);
+    return new ContractRevertError(`${action} reverted: ${reason || error.shortMessage}`, reason, error);
+  }
+  
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return new InsufficientFundsError(`${action} failed: ${error.shortMessage}`, error);
+  }
+  
+  if (ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'SERVER_ERROR') || ethers.isError(error, 'TIMEOUT')) {
+    return new NetworkError(`${action} failed: ${error.shortMessage}`, error);
+  }
+  
+  return error;
+}
+
+/**
+ * Source token of an encoded swap, as resolved on the Meson contract
+ */
+export interface SwapTokenInfo {
+  address: string;
+  isNative: boolean;
+  decimals: number;
+  symbol?: string;
+  amount: bigint;  // Amount to transfer in the token's smallest unit
+}
+
+/**
+ * ERC20 balance of a wallet, with what is needed to display it
+ */
+export interface TokenBalance {
+  balance: bigint;
+  decimals: number;
+  symbol?: string;
+}
+
+/**
+ * A TransferToMeson contract deployed (or found) through CREATE2
+ */
+export interface TransferContractDeployment {
+  address: string;
+  salt: string;
+  owner: string;
+  txHash?: string;   // Missing if the contract was already deployed
+  reused: boolean;
+}
+
+/**
+ * Called with the gas limit, fees and estimated cost of a transaction before it is sent
+ */
+export type GasEstimateListener = (action: string, estimate: GasEstimate) => void;
+
 export class MesonContractService {
   private provider: ethers.Provider;
   private debug: boolean;
+  private gas: GasOptions;
+  private sentEstimates: GasEstimate[] = [];  // Counted against --max-gas-cost by later transactions
 
-  constructor(rpcUrl: string, debug = false) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  constructor(rpcUrl: string, debug = false, gas: GasOptions = {}) {
+    // No response cache: deployment, approval and transferToMeson are sent back to back,
+    // and a cached pending nonce would be reused by the next transaction
+    this.provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 });
     this.debug = debug;
+    this.gas = gas;
   }
 
   // Log debug message if debug mode is enabled
@@ -69,66 +330,357 @@ export class MesonContractService {
   }
 
   /**
-   * Deploys a new TransferToMeson contract
+   * Resolves the source token used by an encoded swap
+   * 
+   * The token index is the `inToken` field of the encoded swap and is
+   * mapped to a token address through `tokenForIndex` on the Meson contract.
    * 
    * @param mesonContractAddress The address of the Meson contract
-   * @param wallet The wallet to use for deployment
-   * @returns The address of the deployed TransferToMeson contract
+   * @param encodedSwap The encoded swap data
+   * @returns The token address, decimals and the amount the contract will pull
    */
-  async deployTransferToMesonContract(
-    mesonContractAddress: string,
-    wallet: ethers.Wallet
-  ): Promise<string> {
-    this.log('Deploying new TransferToMeson contract', { mesonContractAddress });
+  async getSwapToken(mesonContractAddress: string, encodedSwap: string): Promise<SwapTokenInfo> {
+    const tokenIndex = decodeEncodedSwap(encodedSwap).inToken;
+    this.log('Resolving swap token', { mesonContractAddress, tokenIndex });
     
-    // Connect wallet to provider
-    const connectedWallet = wallet.connect(this.provider);
+    const mesonContract = new ethers.Contract(mesonContractAddress, MESON_CONTRACT_ABI, this.provider);
+    let tokenAddress: string;
+    try {
+      tokenAddress = await mesonContract.tokenForIndex.staticCall(tokenIndex);
+    } catch (error) {
+      throw toContractError(error, `tokenForIndex(${tokenIndex})`);
+    }
     
-    // Create contract factory for deployment using the ABI and bytecode from the JSON file
-    const factory = new ethers.ContractFactory(
-      TRANSFER_TO_MESON_ABI,
-      TRANSFER_TO_MESON_BYTECODE,
-      connectedWallet
-    );
+    if (tokenAddress === ethers.ZeroAddress) {
+      throw new ValidationError(`Token index ${tokenIndex} is not supported by the Meson contract at ${mesonContractAddress}`);
+    }
+    
+    if (tokenAddress.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+      const info: SwapTokenInfo = {
+        address: tokenAddress,
+        isNative: true,
+        decimals: 18,
+        amount: amountFromEncodedSwap(encodedSwap, 18)
+      };
+      this.log('Resolved native swap token', { ...info, amount: info.amount.toString() });
+      return info;
+    }
     
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    let decimals: number;
     try {
-      // Deploy contract with the meson contract address as constructor parameter
-      const contract = await factory.deploy(mesonContractAddress);
+      decimals = Number(await tokenContract.decimals());
+    } catch (error) {
+      throw toContractError(error, `Reading decimals of ${tokenAddress}`);
+    }
+    
+    let symbol: string | undefined;
+    try {
+      symbol = await tokenContract.symbol();
+    } catch (error) {
+      this.log('Could not read token symbol', error);
+    }
+    
+    const info: SwapTokenInfo = {
+      address: tokenAddress,
+      isNative: false,
+      decimals,
+      symbol,
+      amount: amountFromEncodedSwap(encodedSwap, decimals)
+    };
+    this.log('Resolved ERC20 swap token', { ...info, amount: info.amount.toString() });
+    return info;
+  }
+
+  /**
+   * Reads the native (gas token) balance of an address
+   */
+  async getBalance(address: string): Promise<bigint> {
+    try {
+      return await this.provider.getBalance(address);
+    } catch (error) {
+      throw toContractError(error, `Reading the balance of ${address}`);
+    }
+  }
+
+  /**
+   * Reads the ERC20 balance of an owner
+   * 
+   * @param tokenAddress The ERC20 token address
+   * @param owner The token owner
+   * @returns The balance in the token's smallest unit, with its decimals and symbol
+   */
+  async getTokenBalance(tokenAddress: string, owner: string): Promise<TokenBalance> {
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    let balance: bigint;
+    let decimals: number;
+    try {
+      balance = await tokenContract.balanceOf(owner);
+      decimals = Number(await tokenContract.decimals());
+    } catch (error) {
+      throw toContractError(error, `Reading the balance of ${owner} in ${tokenAddress}`);
+    }
+    
+    let symbol: string | undefined;
+    try {
+      symbol = await tokenContract.symbol();
+    } catch (error) {
+      this.log('Could not read token symbol', error);
+    }
+    
+    this.log('Token balance', { tokenAddress, owner, balance: balance.toString(), decimals });
+    return { balance, decimals, symbol };
+  }
+
+  /**
+   * Estimates the gas and fee of an ERC20 approval with the configured gas settings
+   * 
+   * @param tokenAddress The ERC20 token address
+   * @param spender The spender to approve
+   * @param amount The amount to approve
+   * @param from The token owner sending the approval
+   */
+  async estimateApprovalCost(tokenAddress: string, spender: string, amount: bigint, from: string): Promise<GasEstimate> {
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    const tx = await tokenContract.approve.populateTransaction(spender, amount);
+    return this.estimateCost(tx, from, 'Token approval');
+  }
+
+  /**
+   * Estimates the gas and fee of a transferToMeson call with the configured gas settings
+   * 
+   * @param transferContractAddress The address of the TransferToMeson contract
+   * @param encodedSwap The encoded swap data
+   * @param from The wallet that will send the transaction
+   * @param value Native value sent with the call
+   */
+  async estimateTransferToMesonCost(
+    transferContractAddress: string,
+    encodedSwap: EncodeSwapResult,
+    from: string,
+    value: bigint
+  ): Promise<GasEstimate> {
+    const transferContract = new ethers.Contract(transferContractAddress, TRANSFER_TO_MESON_ABI, this.provider);
+    const tx = await transferContract.transferToMeson.populateTransaction(BigInt(encodedSwap.encoded), encodedSwap.initiator, { value });
+    return this.estimateCost(tx, from, 'transferToMeson');
+  }
+
+  /**
+   * Estimates the gas and fee of deploying a wallet's TransferToMeson contract
+   * through CREATE2 with the configured gas settings
+   * 
+   * @param mesonContractAddress The Meson contract it forwards swaps to
+   * @param owner The wallet that will send the deployment, which is also the owner in the salt
+   */
+  async estimateDeploymentCost(mesonContractAddress: string, owner: string): Promise<GasEstimate> {
+    await this.checkCreate2Factory();
+    return this.estimateCost(transferToMesonDeployment(owner, mesonContractAddress), owner, 'TransferToMeson deployment');
+  }
+
+  /**
+   * Throws if the estimated fees of the transactions about to be sent add up
+   * to more than the --max-gas-cost cap, before any of them is sent
+   * 
+   * @param estimates The estimates of every transaction to send
+   * @param action Description of the transactions, used in the message
+   */
+  checkGasCost(estimates: GasEstimate[], action: string): void {
+    assertGasCost(estimates, this.gas.maxGasCost, action, 'Nothing was sent.');
+  }
+
+  /**
+   * Reads the ERC20 allowance granted by an owner to a spender
+   * 
+   * @param tokenAddress The ERC20 token address
+   * @param owner The token owner
+   * @param spender The approved spender (the TransferToMeson contract)
+   * @returns The current allowance
+   */
+  async getAllowance(tokenAddress: string, owner: string, spender: string): Promise<bigint> {
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    let allowance: bigint;
+    try {
+      allowance = await tokenContract.allowance(owner, spender);
+    } catch (error) {
+      throw toContractError(error, `Reading allowance of ${tokenAddress}`);
+    }
+    this.log('Current allowance', { tokenAddress, owner, spender, allowance: allowance.toString() });
+    return allowance;
+  }
+
+  /**
+   * Approves a spender to transfer the signer's ERC20 tokens
+   * 
+   * @param tokenAddress The ERC20 token address
+   * @param spender The spender to approve (the TransferToMeson contract)
+   * @param amount The amount to approve
+   * @param signer The signer owning the tokens
+   * @param onGasEstimate Called with the gas settings before the transaction is sent
+   * @returns The approval transaction hash
+   */
+  async approveToken(
+    tokenAddress: string,
+    spender: string,
+    amount: bigint,
+    signer: MesonSigner,
+    onGasEstimate?: GasEstimateListener
+  ): Promise<string> {
+    this.log('Approving token', { tokenAddress, spender, amount: amount.toString() });
+    
+    const connectedSigner = await signer.connect(this.provider);
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, connectedSigner);
+    
+    try {
+      const tx = await tokenContract.approve.populateTransaction(spender, amount);
+      const response = await this.sendTransaction(connectedSigner, tx, 'Token approval', onGasEstimate);
+      this.log('Approval sent', { hash: response.hash });
       
-      this.log('Waiting for deployment transaction to be mined...');
-      await contract.deploymentTransaction()?.wait();
+      const receipt = await response.wait();
+      this.log('Approval confirmed', {
+        hash: receipt?.hash,
+        blockNumber: receipt?.blockNumber
+      });
       
-      const deployedAddress = await contract.getAddress();
-      this.log('TransferToMeson contract deployed successfully', { address: deployedAddress });
+      return response.hash;
+    } catch (error) {
+      this.log('Error approving token', error);
+      throw toContractError(error, 'Token approval');
+    }
+  }
+
+  /**
+   * Reads the chain ID of the connected network
+   */
+  async getChainId(): Promise<bigint> {
+    try {
+      return (await this.provider.getNetwork()).chainId;
+    } catch (error) {
+      throw toContractError(error, 'Reading the chain ID');
+    }
+  }
+
+  /**
+   * Reads the code deployed at an address ('0x' if there is none)
+   */
+  async getCode(address: string): Promise<string> {
+    try {
+      return await this.provider.getCode(address);
+    } catch (error) {
+      throw toContractError(error, `Reading the code at ${address}`);
+    }
+  }
+
+  /**
+   * Deploys the signer's TransferToMeson contract through CREATE2
+   * 
+   * The contract lands at `predictTransferToMesonAddress(signer, meson)`.
+   * If it is already deployed there, it is reused without a transaction.
+   * 
+   * @param mesonContractAddress The address of the Meson contract
+   * @param signer The signer to deploy with, which is also the owner in the salt
+   * @param onGasEstimate Called with the gas settings before the deployment is sent
+   * @returns The contract address, salt and deployment transaction
+   */
+  async deployTransferToMesonContract(
+    mesonContractAddress: string,
+    signer: MesonSigner,
+    onGasEstimate?: GasEstimateListener
+  ): Promise<TransferContractDeployment> {
+    const owner = await signer.getAddress();
+    const salt = transferToMesonSalt(owner, mesonContractAddress);
+    const address = predictTransferToMesonAddress(owner, mesonContractAddress);
+    this.log('Deploying TransferToMeson contract through CREATE2', { mesonContractAddress, owner, salt, address });
+    
+    const existingCode = await this.getCode(address);
+    if (existingCode !== '0x') {
+      if (!isTransferToMesonCode(existingCode)) {
+        throw new ValidationError(`The code at ${address} is not the bundled TransferToMeson contract.`);
+      }
+      this.log('TransferToMeson contract already deployed', { address });
+      return { address, salt, owner, reused: true };
+    }
+    
+    await this.checkCreate2Factory();
+    
+    // Connect signer to provider
+    const connectedSigner = await signer.connect(this.provider);
+    
+    let txHash: string;
+    try {
+      const response = await this.sendTransaction(
+        connectedSigner, transferToMesonDeployment(owner, mesonContractAddress), 'TransferToMeson deployment', onGasEstimate
+      );
+      txHash = response.hash;
       
-      return deployedAddress;
+      this.log('Waiting for deployment transaction to be mined...', { hash: txHash });
+      await response.wait();
     } catch (error) {
       this.log('Error deploying TransferToMeson contract', error);
-      throw error;
+      throw toContractError(error, 'TransferToMeson deployment');
+    }
+    
+    if (!isTransferToMesonCode(await this.getCode(address))) {
+      throw new ContractRevertError(`TransferToMeson deployment ${txHash} did not create the contract at ${address}.`);
+    }
+    
+    this.log('TransferToMeson contract deployed successfully', { address });
+    return { address, salt, owner, txHash, reused: false };
+  }
+
+  /**
+   * Simulates a transferToMeson call with `staticCall`, without sending it
+   * 
+   * The call runs as `fromAddress`, so ERC20 swaps are checked against its
+   * balance and allowance.
+   * 
+   * @param transferContractAddress The address of the TransferToMeson contract
+   * @param encodedSwap The encoded swap data
+   * @param fromAddress The wallet that will send the transaction
+   * @param value Native value sent with the call
+   * @throws ContractRevertError with the decoded revert reason if the call would revert
+   */
+  async simulateTransferToMeson(
+    transferContractAddress: string,
+    encodedSwap: EncodeSwapResult,
+    fromAddress: string,
+    value: bigint
+  ): Promise<void> {
+    this.log('Simulating transferToMeson', { transferContractAddress, fromAddress, value: value.toString() });
+    
+    const transferContract = new ethers.Contract(transferContractAddress, TRANSFER_TO_MESON_ABI, this.provider);
+    try {
+      await transferContract.transferToMeson.staticCall(BigInt(encodedSwap.encoded), encodedSwap.initiator, { value, from: fromAddress });
+    } catch (error) {
+      this.log('transferToMeson simulation failed', error);
+      throw toContractError(error, 'transferToMeson simulation');
     }
+    
+    this.log('transferToMeson simulation succeeded');
   }
 
   /**
    * Calls the transferToMeson function on the TransferToMeson contract
    * 
+   * The contract must already be deployed and, for ERC20 swaps, approved:
+   * deploy it with `deployTransferToMesonContract` and approve it first.
+   * 
    * @param mesonContractAddress The address of the Meson contract
    * @param encodedSwap The encoded swap data
-   * @param wallet The wallet to use for the transaction
-   * @param amount Amount to send with the transaction (for ETH swaps)
-   * @param transferContractAddress The address of the TransferToMeson contract (optional)
-   * @param deployIfMissing Whether to deploy a new TransferToMeson contract if not provided
+   * @param signer The signer to send the transaction with
+   * @param transferContractAddress The address of the TransferToMeson contract
+   * @param onGasEstimate Called with the gas settings before each transaction is sent
    * @returns The transaction hash
    */
   async callTransferToMeson(
     mesonContractAddress: string,
     encodedSwap: EncodeSwapResult,
-    wallet: ethers.Wallet,
-    amount: string,
+    signer: MesonSigner,
     transferContractAddress?: string,
-    deployIfMissing?: boolean
+    onGasEstimate?: GasEstimateListener
   ): Promise<string> {
-    // Connect wallet to provider
-    const connectedWallet = wallet.connect(this.provider);
+    // Connect signer to provider
+    const connectedSigner = await signer.connect(this.provider);
+    const signerAddress = await signer.getAddress();
     
     // Extract encoded swap string if an EncodeSwapResult was provided
     const encodedSwapStr = encodedSwap.encoded;
@@ -136,14 +688,26 @@ export class MesonContractService {
     // Get initiator from the encoded swap data
     const initiator = encodedSwap.initiator;
     
-    // Deploy TransferToMeson contract if needed
-    let transferToMesonAddress = transferContractAddress;
+    // Deploying here would skip the approval of a new contract, so the caller deploys first
+    const transferToMesonAddress = transferContractAddress;
+    if (!transferToMesonAddress) {
+      throw new ValidationError('TransferToMeson contract address not provided and deployment not requested');
+    }
+    
+    // Native swaps must carry the exact amount as value; ERC20 swaps are
+    // pulled from the wallet with transferFrom and must send zero value
+    const token = await this.getSwapToken(mesonContractAddress, encodedSwapStr);
+    const value = token.isNative ? token.amount : BigInt(0);
     
-    if (!transferToMesonAddress && deployIfMissing) {
-      this.log('No TransferToMeson contract address provided, deploying new contract');
-      transferToMesonAddress = await this.deployTransferToMesonContract(mesonContractAddress, connectedWallet);
-    } else if (!transferToMesonAddress) {
-      throw new Error('TransferToMeson contract address not provided and deployment not requested');
+    if (!token.isNative) {
+      const allowance = await this.getAllowance(token.address, signerAddress, transferToMesonAddress);
+      if (allowance < token.amount) {
+        throw new InsufficientFundsError(
+          `Insufficient allowance for ${token.symbol || token.address}: ` +
+          `${ethers.formatUnits(allowance, token.decimals)} approved, ` +
+          `${ethers.formatUnits(token.amount, token.decimals)} required by ${transferToMesonAddress}`
+        );
+      }
     }
     
     this.log('Calling transferToMeson', {
@@ -151,10 +715,14 @@ export class MesonContractService {
       transferToMesonAddress,
       encodedSwap: encodedSwapStr,
       initiator,
-      fromAddress: wallet.address,
-      amount
+      fromAddress: signerAddress,
+      token: token.address,
+      value: value.toString()
     });
     
+    // Simulate first, so a revert is reported with its reason before any gas is spent
+    await this.simulateTransferToMeson(transferToMesonAddress, encodedSwap, signerAddress, value);
+    
     // Convert the encoded swap from hex string to BigInt
     const encodedSwapBigInt = BigInt(encodedSwapStr);
     
@@ -162,7 +730,7 @@ export class MesonContractService {
     const transferContract = new ethers.Contract(
       transferToMesonAddress, 
       TRANSFER_TO_MESON_ABI,
-      connectedWallet
+      connectedSigner
     );
     
     try {
@@ -170,24 +738,15 @@ export class MesonContractService {
       const tx = await transferContract.transferToMeson.populateTransaction(
         encodedSwapBigInt,
         initiator,
-        { value: ethers.parseEther(amount) }
+        { value }
       );
       
-      // Estimate gas
-      const gasEstimate = await this.provider.estimateGas(tx);
-      
-      // Add 20% buffer to gas estimate
-      const gasLimit = gasEstimate * BigInt(12) / BigInt(10);
-      
       // Send transaction
-      const response = await connectedWallet.sendTransaction({
-        ...tx,
-        gasLimit
-      });
+      const response = await this.sendTransaction(connectedSigner, tx, 'transferToMeson', onGasEstimate);
       
       this.log('Transaction sent', {
         hash: response.hash,
-        gasLimit: gasLimit.toString()
+        gasLimit: response.gasLimit.toString()
       });
       
       // Wait for transaction to be mined
@@ -202,7 +761,68 @@ export class MesonContractService {
       return response.hash;
     } catch (error) {
       this.log('Error calling transferToMeson', error);
-      throw error;
+      throw toContractError(error, 'transferToMeson');
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Sends a transaction with the configured gas settings
+   * 
+   * Gas is estimated as the signer (ERC20 swaps pull the tokens from
+   * msg.sender), and nothing is sent if its estimated fee plus those of the
+   * transactions this service already sent is above the --max-gas-cost cap.
+   * 
+   * @param connectedSigner The signer, connected to this service's provider
+   * @param tx The transaction to send
+   * @param action Description of the transaction, used in messages
+   * @param onGasEstimate Called with the gas settings before the transaction is sent
+   */
+  private async sendTransaction(
+    connectedSigner: ethers.Signer,
+    tx: ethers.TransactionRequest,
+    action: string,
+    onGasEstimate?: GasEstimateListener
+  ): Promise<ethers.TransactionResponse> {
+    const estimate = await estimateGasCost(this.provider, await connectedSigner.estimateGas(tx), this.gas);
+    this.log(`Gas settings for ${action}: ${formatGasEstimate(estimate)}`);
+    onGasEstimate?.(action, estimate);
+    const sent = this.sentEstimates.length;
+    assertGasCost(
+      [...this.sentEstimates, estimate],
+      this.gas.maxGasCost,
+      sent > 0 ? `${action} plus the ${sent} transaction(s) already sent` : action
+    );
+    
+    const fees: ethers.TransactionRequest = estimate.gasPrice !== undefined
+      ? { type: 0, gasPrice: estimate.gasPrice }
+      : { type: 2, maxFeePerGas: estimate.maxFeePerGas, maxPriorityFeePerGas: estimate.maxPriorityFeePerGas };
+    const response = await connectedSigner.sendTransaction({ ...tx, ...fees, gasLimit: estimate.gasLimit });
+    this.sentEstimates.push(estimate);
+    return response;
+  }
+
+  /**
+   * Throws if the CREATE2 deployment proxy is not deployed on this chain
+   */
+  private async checkCreate2Factory(): Promise<void> {
+    if (await this.getCode(CREATE2_FACTORY_ADDRESS) === '0x') {
+      throw new ValidationError(
+        `The CREATE2 deployment proxy ${CREATE2_FACTORY_ADDRESS} is not available on this chain. ` +
+        'Deploy TransferToMeson yourself and pass its address with --transfer-contract.'
+      );
+    }
+  }
+
+  /**
+   * Estimates the gas of a transaction sent by `from` and resolves its fees
+   * 
+   * The sender is required: ERC20 calls revert during estimation without it.
+   */
+  private async estimateCost(tx: ethers.TransactionRequest, from: string, action: string): Promise<GasEstimate> {
+    try {
+      return await estimateGasCost(this.provider, await this.provider.estimateGas({ ...tx, from }), this.gas);
+    } catch (error) {
+      throw toContractError(error, `Estimating gas for ${action}`);
+    }
+  }
+}
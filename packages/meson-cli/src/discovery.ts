@@ -0,0 +1,116 @@
+import { Chain, ChainLimit } from './types';
+import { ValidationError } from './errors';
+
+export interface DiscoveryFilters {
+  token?: string;            // Only include this token symbol (e.g. usdc)
+  sourceOnly?: boolean;      // Only include chains that can be used as a source
+  destinationOnly?: boolean; // Only include destination-only chains
+}
+
+export interface ChainSummary {
+  id: string;
+  name: string;
+  chainId: string;
+  address: string;
+  destinationChainOnly: boolean;
+  tokens: string[];
+}
+
+export interface TokenSummary {
+  chain: string;
+  chainName: string;
+  token: string;
+  addr?: string;
+  min?: string;
+  max?: string;
+  destinationChainOnly: boolean;
+}
+
+/**
+ * Filters chains by token support and by source/destination capability
+ */
+function filterChains(chains: Chain[], filters: DiscoveryFilters): Chain[] {
+  if (filters.sourceOnly && filters.destinationOnly) {
+    throw new ValidationError('--source-only and --destination-only cannot be used together.');
+  }
+
+  const token = filters.token?.toLowerCase();
+
+  return chains.filter(chain => {
+    if (filters.sourceOnly && chain.destinationChainOnly) {
+      return false;
+    }
+    if (filters.destinationOnly && !chain.destinationChainOnly) {
+      return false;
+    }
+    if (token && !chain.tokens.some(t => t.id.toLowerCase() === token)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Lists supported chains matching the given filters
+ *
+ * @param chains Supported chains from the MesonFi API
+ * @param filters Token and source/destination filters
+ * @returns One summary per matching chain
+ */
+export function listChains(chains: Chain[], filters: DiscoveryFilters = {}): ChainSummary[] {
+  return filterChains(chains, filters).map(chain => ({
+    id: chain.id,
+    name: chain.name,
+    chainId: chain.chainId,
+    address: chain.address,
+    destinationChainOnly: !!chain.destinationChainOnly,
+    tokens: chain.tokens.map(t => t.id)
+  }));
+}
+
+/**
+ * Lists supported tokens joined with their swap limits
+ *
+ * @param chains Supported chains from the MesonFi API
+ * @param limits Swap limits from the MesonFi API
+ * @param chainId Restrict the list to a single chain (optional)
+ * @param filters Token and source/destination filters
+ * @returns One summary per chain/token pair
+ */
+export function listTokens(
+  chains: Chain[],
+  limits: ChainLimit[],
+  chainId?: string,
+  filters: DiscoveryFilters = {}
+): TokenSummary[] {
+  if (chainId && !chains.some(c => c.id === chainId)) {
+    throw new ValidationError(`Chain '${chainId}' is not supported.`);
+  }
+
+  const token = filters.token?.toLowerCase();
+  const selected = filterChains(chains, filters).filter(c => !chainId || c.id === chainId);
+
+  const result: TokenSummary[] = [];
+  for (const chain of selected) {
+    const chainLimit = limits.find(l => l.id === chain.id);
+
+    for (const t of chain.tokens) {
+      if (token && t.id.toLowerCase() !== token) {
+        continue;
+      }
+
+      const tokenLimit = chainLimit?.tokens.find(l => l.id === t.id);
+      result.push({
+        chain: chain.id,
+        chainName: chain.name,
+        token: t.id,
+        addr: t.addr,
+        min: tokenLimit?.min ?? t.min,
+        max: tokenLimit?.max ?? t.max,
+        destinationChainOnly: !!chain.destinationChainOnly
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,190 @@
+import { ethers } from 'ethers';
+import { ValidationError } from './errors';
+import { MesonAmount, MESON_DECIMALS } from './amount';
+
+export { MESON_DECIMALS };
+
+// Earliest and latest accepted expiry of a freshly encoded swap, relative to now
+const MIN_EXPIRE_MARGIN_SECONDS = 10 * 60;
+const MAX_EXPIRE_WINDOW_SECONDS = 24 * 60 * 60;
+
+/**
+ * Short SLIP-44 codes Meson uses for the in/out chain fields, by Meson chain id.
+ * Chains missing here are reported as unchecked rather than rejected.
+ */
+export const CHAIN_CODES: Record<string, number> = {
+  eth: 0x003c,
+  bsc: 0x02ca,
+  bnb: 0x02ca,
+  tron: 0x00c3,
+  polygon: 0x03c6,
+  avax: 0x2328,
+  arb: 0x2329,
+  opt: 0x0266,
+  ftm: 0x03ef,
+  zksync: 0x0324,
+  base: 0x2105,
+  linea: 0xe708
+};
+
+/**
+ * Meson token indexes for tokens that share the same index on every chain.
+ * Tokens missing here are reported as unchecked, and the client refuses to
+ * sign swaps whose tokens it could not check.
+ */
+export const TOKEN_INDEXES: Record<string, number> = {
+  usdc: 1,
+  usdt: 2
+};
+
+/**
+ * Fields of an encoded swap (a uint256), from the most significant bits down:
+ * version (8) | amount (40) | salt (80) | fee (40) | expireTs (40) |
+ * outChain (16) | outToken (8) | inChain (16) | inToken (8)
+ */
+export interface DecodedSwap {
+  version: number;
+  amount: bigint;   // 6 decimals, as read by TransferToMesonContract._amountFrom
+  salt: bigint;
+  fee: bigint;      // LP fee, 6 decimals
+  expireTs: number; // Unix seconds
+  outChain: number;
+  outToken: number;
+  inChain: number;  // Also the chain funds are returned on if the swap expires
+  inToken: number;  // Read by TransferToMesonContract._tokenAddrFrom
+}
+
+/**
+ * Unpacks an encoded swap into its fields
+ *
+ * @param encoded The encoded swap as a 0x-prefixed 32-byte hex string
+ * @returns The decoded fields
+ */
+export function decodeEncodedSwap(encoded: string): DecodedSwap {
+  if (!ethers.isHexString(encoded, 32)) {
+    throw new ValidationError(`Invalid encoded swap '${encoded}'. Expected a 32-byte hex string.`);
+  }
+
+  const value = BigInt(encoded);
+  const bits = (shift: number, width: number) => (value >> BigInt(shift)) & ((BigInt(1) << BigInt(width)) - BigInt(1));
+
+  return {
+    version: Number(bits(248, 8)),
+    amount: bits(208, 40),
+    salt: bits(128, 80),
+    fee: bits(88, 40),
+    expireTs: Number(bits(48, 40)),
+    outChain: Number(bits(32, 16)),
+    outToken: Number(bits(24, 8)),
+    inChain: Number(bits(8, 16)),
+    inToken: Number(bits(0, 8))
+  };
+}
+
+/**
+ * Formats a 6-decimal Meson amount
+ */
+export function formatMesonAmount(value: bigint): string {
+  return ethers.formatUnits(value, MESON_DECIMALS);
+}
+
+/**
+ * Formats a chain or token code as zero-padded hex
+ */
+export function formatCode(code: number, bytes: number): string {
+  return '0x' + code.toString(16).padStart(bytes * 2, '0');
+}
+
+/**
+ * Finds the Meson chain ids that use a SLIP-44 code
+ */
+export function chainIdsForCode(code: number): string[] {
+  return Object.keys(CHAIN_CODES).filter(id => CHAIN_CODES[id] === code);
+}
+
+/**
+ * Finds the token symbols that use a token index
+ */
+export function tokenIdsForIndex(index: number): string[] {
+  return Object.keys(TOKEN_INDEXES).filter(id => TOKEN_INDEXES[id] === index);
+}
+
+export interface SwapExpectation {
+  from: string;     // Source chain:token
+  to: string;       // Destination chain:token
+  amount: string;   // Amount requested by the user
+  now?: number;     // Current time in Unix seconds (defaults to the system clock)
+}
+
+export interface SwapCheck {
+  field: string;
+  expected: string;
+  actual: string;
+  ok: boolean;
+  skipped?: boolean;  // No known code to compare against
+}
+
+/**
+ * Compares a decoded swap with what the user asked for
+ *
+ * @param decoded The decoded swap
+ * @param expected The requested route, amount and current time
+ * @returns One check per verified field
+ */
+export function verifyEncodedSwap(decoded: DecodedSwap, expected: SwapExpectation): SwapCheck[] {
+  const [fromChain, fromToken] = expected.from.split(':');
+  const [toChain, toToken] = expected.to.split(':');
+  const now = expected.now ?? Math.floor(Date.now() / 1000);
+
+  const expectedAmount = MesonAmount.parse(expected.amount).units;
+
+  const checks: SwapCheck[] = [{
+    field: 'amount',
+    expected: formatMesonAmount(expectedAmount),
+    actual: formatMesonAmount(decoded.amount),
+    ok: decoded.amount === expectedAmount
+  }, {
+    field: 'expireTs',
+    expected: `between ${now + MIN_EXPIRE_MARGIN_SECONDS} and ${now + MAX_EXPIRE_WINDOW_SECONDS}`,
+    actual: String(decoded.expireTs),
+    ok: decoded.expireTs >= now + MIN_EXPIRE_MARGIN_SECONDS && decoded.expireTs <= now + MAX_EXPIRE_WINDOW_SECONDS
+  }];
+
+  const codeCheck = (field: string, id: string, table: Record<string, number>, actual: number, bytes: number) => {
+    const code = table[id.toLowerCase()];
+    checks.push({
+      field,
+      expected: code === undefined ? `${id} (unknown code)` : `${id} (${formatCode(code, bytes)})`,
+      actual: formatCode(actual, bytes),
+      ok: code === undefined || code === actual,
+      skipped: code === undefined
+    });
+  };
+
+  codeCheck('inChain', fromChain, CHAIN_CODES, decoded.inChain, 2);
+  codeCheck('inToken', fromToken, TOKEN_INDEXES, decoded.inToken, 1);
+  codeCheck('outChain', toChain, CHAIN_CODES, decoded.outChain, 2);
+  codeCheck('outToken', toToken, TOKEN_INDEXES, decoded.outToken, 1);
+
+  return checks;
+}
+
+/**
+ * Decodes and verifies an encoded swap, throwing if any field does not match
+ *
+ * @param encoded The encoded swap returned by the relayer
+ * @param expected The requested route, amount and current time
+ * @returns The decoded swap and the individual checks
+ */
+export function assertEncodedSwap(encoded: string, expected: SwapExpectation): { decoded: DecodedSwap, checks: SwapCheck[] } {
+  const decoded = decodeEncodedSwap(encoded);
+  const checks = verifyEncodedSwap(decoded, expected);
+  const failed = checks.filter(c => !c.ok);
+
+  if (failed.length > 0) {
+    const details = failed.map(c => `${c.field}: expected ${c.expected}, got ${c.actual}`).join('; ');
+    throw new ValidationError(`Encoded swap from the relayer does not match the request (${details}). Refusing to sign.`);
+  }
+
+  return { decoded, checks };
+}
@@ -0,0 +1,92 @@
+// Process exit codes, documented in the README
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  UNKNOWN: 1,             // Unexpected error
+  SWAP_EXPIRED: 2,        // status: swap expired or cancelled; bridge-batch: pending swap expired
+  TIMEOUT: 3,             // status: swap not final before the timeout
+  VALIDATION: 4,          // Invalid input, unsupported chain/token, amount out of limits
+  INSUFFICIENT_FUNDS: 5,  // Balance or allowance too low
+  API: 6,                 // Relayer rejected the request
+  NETWORK: 7,             // Relayer or RPC unreachable, timed out or unavailable
+  CONTRACT_REVERT: 8,     // On-chain call or transaction reverted
+  SWAP_PENDING: 9         // status: swap not final yet (single lookup)
+};
+
+/**
+ * Base class for errors with a dedicated process exit code
+ */
+export class MesonCliError extends Error {
+  readonly exitCode: number = EXIT_CODES.UNKNOWN;
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Invalid input: options, chains, tokens, amounts or addresses
+ */
+export class ValidationError extends MesonCliError {
+  readonly exitCode = EXIT_CODES.VALIDATION;
+}
+
+/**
+ * The source address lacks the balance or allowance needed for the swap
+ */
+export class InsufficientFundsError extends MesonCliError {
+  readonly exitCode = EXIT_CODES.INSUFFICIENT_FUNDS;
+}
+
+/**
+ * The relayer answered with an error payload
+ */
+export class MesonApiError extends MesonCliError {
+  readonly exitCode = EXIT_CODES.API;
+  readonly code?: number;       // `error.code` of the relayer response
+  readonly dataCode?: string;   // `error.data.code` of the relayer response
+  readonly httpStatus?: number;
+
+  constructor(message: string, code?: number, dataCode?: string, httpStatus?: number, cause?: unknown) {
+    super(message, cause);
+    this.code = code;
+    this.dataCode = dataCode;
+    this.httpStatus = httpStatus;
+  }
+}
+
+/**
+ * The relayer or RPC endpoint could not be reached or was unavailable
+ */
+export class NetworkError extends MesonCliError {
+  readonly exitCode = EXIT_CODES.NETWORK;
+}
+
+/**
+ * A signed swap expired before the relayer accepted it
+ */
+export class SwapExpiredError extends MesonCliError {
+  readonly exitCode = EXIT_CODES.SWAP_EXPIRED;
+}
+
+/**
+ * A contract call or transaction reverted
+ */
+export class ContractRevertError extends MesonCliError {
+  readonly exitCode = EXIT_CODES.CONTRACT_REVERT;
+  readonly reason?: string;
+
+  constructor(message: string, reason?: string, cause?: unknown) {
+    super(message, cause);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Maps an error to its process exit code
+ */
+export function exitCodeFor(error: unknown): number {
+  return error instanceof MesonCliError ? error.exitCode : EXIT_CODES.UNKNOWN;
+}
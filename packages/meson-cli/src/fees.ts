@@ -0,0 +1,74 @@
+import { MesonAmount, MESON_DECIMALS } from './amount';
+import { ValidationError } from './errors';
+
+/**
+ * Highest relayer fee a swap may be signed or sent with; no limit when unset
+ */
+export interface FeeLimits {
+  maxFee?: MesonAmount;          // Total fee, in source token units
+  maxFeePercent?: MesonAmount;   // Total fee as a percentage of the amount
+}
+
+/**
+ * Fee limits as given on the command line
+ */
+export interface FeeCliOptions {
+  maxFee?: string;
+  maxFeePercent?: string;
+}
+
+/**
+ * Parses the fee limits of a command
+ *
+ * @param options Values of --max-fee and --max-fee-percent
+ * @returns The limits as exact amounts
+ */
+export function parseFeeLimits(options: FeeCliOptions): FeeLimits {
+  const limits: FeeLimits = {};
+  if (options.maxFee !== undefined) {
+    limits.maxFee = MesonAmount.parse(options.maxFee, '--max-fee');
+  }
+  if (options.maxFeePercent !== undefined) {
+    limits.maxFeePercent = MesonAmount.parse(options.maxFeePercent, '--max-fee-percent');
+    if (limits.maxFeePercent.cmp(MesonAmount.parse('100')) > 0) {
+      throw new ValidationError(`--max-fee-percent must be between 0 and 100, got ${options.maxFeePercent}.`);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Throws if a relayer-quoted fee is above --max-fee or --max-fee-percent
+ *
+ * @param fee The total fee of the swap
+ * @param amount The amount the fee is deducted from
+ * @param limits The limits, if any
+ */
+export function assertFeeLimits(fee: MesonAmount, amount: MesonAmount, limits: FeeLimits): void {
+  if (limits.maxFee && fee.cmp(limits.maxFee) > 0) {
+    throw new ValidationError(
+      `Total fee ${fee} is above --max-fee ${limits.maxFee}. Not signing or sending the swap.`
+    );
+  }
+  // fee / amount > percent / 100, compared in integers (the percentage has 6 decimals as well)
+  const percentScale = BigInt(100) * BigInt(10) ** BigInt(MESON_DECIMALS);
+  if (limits.maxFeePercent && fee.units * percentScale > amount.units * limits.maxFeePercent.units) {
+    throw new ValidationError(
+      `Total fee ${fee} is ${formatFeePercent(fee, amount)} of ${amount}, above --max-fee-percent ${limits.maxFeePercent}%. ` +
+      'Not signing or sending the swap.'
+    );
+  }
+}
+
+/**
+ * Formats a fee as a percentage of the amount, rounded up to 2 decimals (e.g., 0.35%)
+ */
+export function formatFeePercent(fee: MesonAmount, amount: MesonAmount): string {
+  if (amount.isZero()) {
+    return '-';
+  }
+  // Hundredths of a percent, rounded up so a fee just over a limit never shows as equal to it
+  const hundredths = (fee.units * BigInt(10000) + amount.units - BigInt(1)) / amount.units;
+  const fraction = (hundredths % BigInt(100)).toString().padStart(2, '0').replace(/0+$/, '');
+  return `${hundredths / BigInt(100)}${fraction ? `.${fraction}` : ''}%`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Formats rows of cells as a plain-text table with padded columns
+ * 
+ * @param headers Column headers
+ * @param rows Table rows, one string per column
+ * @returns The table as a multi-line string
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map(row => (row[i] || '').length))
+  );
+  
+  const formatRow = (cells: string[]) =>
+    cells.map((cell, i) => (cell || '').padEnd(widths[i])).join('  ').trimEnd();
+  
+  return [
+    formatRow(headers),
+    formatRow(widths.map(width => '-'.repeat(width))),
+    ...rows.map(formatRow)
+  ].join('\n');
+}
+
+/**
+ * Formats rows of cells as CSV, quoting cells that need it
+ * 
+ * @param headers Column headers
+ * @param rows Rows, one string per column
+ * @returns The CSV text, ending with a newline
+ */
+export function formatCsv(headers: string[], rows: string[][]): string {
+  const escape = (cell: string) =>
+    /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  
+  return [headers, ...rows]
+    .map(cells => cells.map(cell => escape(cell || '')).join(','))
+    .join('\n') + '\n';
+}
@@ -0,0 +1,187 @@
+import { ethers } from 'ethers';
+import { ValidationError } from './errors';
+
+// Buffer added to gas estimates unless --gas-limit-multiplier is given
+export const DEFAULT_GAS_LIMIT_MULTIPLIER = 1.2;
+
+/**
+ * Gas settings for contract transactions; fees are taken from the RPC endpoint when not set
+ */
+export interface GasOptions {
+  gasLimitMultiplier?: number;     // Applied to the gas estimate (default 1.2)
+  maxFeePerGas?: bigint;           // EIP-1559 fee cap, in wei
+  maxPriorityFeePerGas?: bigint;   // EIP-1559 tip, in wei
+  gasPrice?: bigint;               // Sends a legacy (type 0) transaction at this price, in wei
+  maxGasCost?: bigint;             // Abort if the estimated fees of all transactions add up to more, in wei
+}
+
+/**
+ * Gas options as given on the command line: gwei for prices, native units for the cost cap
+ */
+export interface GasCliOptions {
+  gasLimitMultiplier?: string;
+  maxFeePerGas?: string;
+  maxPriorityFee?: string;
+  legacyGasPrice?: string;
+  maxGasCost?: string;
+}
+
+/**
+ * Gas limit and fees a transaction is sent with, and what it is expected to cost
+ */
+export interface GasEstimate {
+  gasEstimate: bigint;             // Gas estimated by the RPC endpoint
+  gasLimit: bigint;                // Estimate times the multiplier
+  gasPrice?: bigint;               // Set for legacy transactions
+  maxFeePerGas?: bigint;           // Set for EIP-1559 transactions
+  maxPriorityFeePerGas?: bigint;
+  cost: bigint;                    // Estimated fee at the current base fee, in wei
+  maxCost: bigint;                 // Highest possible fee (gas limit at the fee cap), in wei
+}
+
+/**
+ * Parses and checks the gas options of a command
+ *
+ * @param options Values of --gas-limit-multiplier, --max-fee-per-gas, --max-priority-fee, --legacy-gas-price and --max-gas-cost
+ * @returns The options in wei
+ */
+export function parseGasOptions(options: GasCliOptions): GasOptions {
+  const gas: GasOptions = {
+    maxFeePerGas: parseUnits(options.maxFeePerGas, 'gwei', '--max-fee-per-gas'),
+    maxPriorityFeePerGas: parseUnits(options.maxPriorityFee, 'gwei', '--max-priority-fee'),
+    gasPrice: parseUnits(options.legacyGasPrice, 'gwei', '--legacy-gas-price'),
+    maxGasCost: parseUnits(options.maxGasCost, 'ether', '--max-gas-cost')
+  };
+
+  if (options.gasLimitMultiplier !== undefined) {
+    const multiplier = Number(options.gasLimitMultiplier);
+    if (!Number.isFinite(multiplier) || multiplier < 1) {
+      throw new ValidationError(`--gas-limit-multiplier must be a number of at least 1, got '${options.gasLimitMultiplier}'.`);
+    }
+    gas.gasLimitMultiplier = multiplier;
+  }
+
+  if (gas.gasPrice !== undefined && (gas.maxFeePerGas !== undefined || gas.maxPriorityFeePerGas !== undefined)) {
+    throw new ValidationError('--legacy-gas-price cannot be combined with --max-fee-per-gas or --max-priority-fee.');
+  }
+  if (gas.maxFeePerGas !== undefined && gas.maxPriorityFeePerGas !== undefined && gas.maxPriorityFeePerGas > gas.maxFeePerGas) {
+    throw new ValidationError('--max-priority-fee cannot be higher than --max-fee-per-gas.');
+  }
+  return gas;
+}
+
+/**
+ * Applies a multiplier to a gas estimate, rounding up
+ */
+export function applyGasLimitMultiplier(gasEstimate: bigint, multiplier: number = DEFAULT_GAS_LIMIT_MULTIPLIER): bigint {
+  // Scale to basis points to multiply in bigint
+  const basisPoints = BigInt(Math.round(multiplier * 10000));
+  return (gasEstimate * basisPoints + BigInt(9999)) / BigInt(10000);
+}
+
+/**
+ * Resolves the gas limit and fees of a transaction and estimates its cost
+ *
+ * Fees not set in the options come from the RPC endpoint. Chains without
+ * EIP-1559 fee data get a legacy transaction at the endpoint's gas price.
+ *
+ * @param provider Provider of the chain
+ * @param gasEstimate Gas estimated for the transaction
+ * @param options Gas settings
+ */
+export async function estimateGasCost(provider: ethers.Provider, gasEstimate: bigint, options: GasOptions = {}): Promise<GasEstimate> {
+  const gasLimit = applyGasLimitMultiplier(gasEstimate, options.gasLimitMultiplier);
+
+  if (options.gasPrice !== undefined) {
+    return { gasEstimate, gasLimit, gasPrice: options.gasPrice, cost: gasEstimate * options.gasPrice, maxCost: gasLimit * options.gasPrice };
+  }
+
+  const feeData = await provider.getFeeData();
+  const eip1559Options = options.maxFeePerGas !== undefined || options.maxPriorityFeePerGas !== undefined;
+  if (eip1559Options && feeData.maxFeePerGas === null) {
+    // The chain would reject a type 2 transaction
+    throw new ValidationError(
+      'The RPC endpoint reports no EIP-1559 fee data, so --max-fee-per-gas and --max-priority-fee cannot be used. ' +
+      'Set a price with --legacy-gas-price instead.'
+    );
+  }
+  if (feeData.maxFeePerGas === null) {
+    if (feeData.gasPrice === null) {
+      throw new ValidationError('The RPC endpoint did not report a gas price. Set one with --legacy-gas-price.');
+    }
+    return { gasEstimate, gasLimit, gasPrice: feeData.gasPrice, cost: gasEstimate * feeData.gasPrice, maxCost: gasLimit * feeData.gasPrice };
+  }
+
+  const maxFeePerGas = options.maxFeePerGas ?? feeData.maxFeePerGas;
+  // A tip above the cap is never paid, so keep the node's suggestion within it
+  const suggestedTip = options.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas ?? BigInt(0);
+  const maxPriorityFeePerGas = suggestedTip > maxFeePerGas ? maxFeePerGas : suggestedTip;
+
+  // The fee actually paid is the base fee plus the tip, capped at maxFeePerGas
+  const block = await provider.getBlock('latest');
+  const baseFee = block?.baseFeePerGas;
+  const effectivePrice = baseFee === null || baseFee === undefined || baseFee + maxPriorityFeePerGas > maxFeePerGas
+    ? maxFeePerGas
+    : baseFee + maxPriorityFeePerGas;
+
+  return {
+    gasEstimate,
+    gasLimit,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    cost: gasEstimate * effectivePrice,
+    maxCost: gasLimit * maxFeePerGas
+  };
+}
+
+/**
+ * Throws if the estimated fees of transactions add up to more than the --max-gas-cost cap
+ *
+ * The cap applies to every transaction a command sends, so callers pass the
+ * estimates of all of them: those still to send and those already sent.
+ *
+ * @param estimates The resolved gas settings of the transactions
+ * @param maxGasCost The cap in wei, if any
+ * @param action Description of the transactions, used in the message
+ * @param consequence What the caller does instead, appended to the message
+ */
+export function assertGasCost(
+  estimates: GasEstimate[],
+  maxGasCost: bigint | undefined,
+  action: string,
+  consequence = 'Not sending the transaction.'
+): void {
+  const cost = estimates.reduce((sum, estimate) => sum + estimate.cost, BigInt(0));
+  if (maxGasCost !== undefined && cost > maxGasCost) {
+    throw new ValidationError(
+      `Estimated fee for ${action} is ${ethers.formatEther(cost)}, above --max-gas-cost ${ethers.formatEther(maxGasCost)}. ${consequence}`
+    );
+  }
+}
+
+/**
+ * Describes a gas estimate for progress output, with fees in native units and gwei
+ */
+export function formatGasEstimate(estimate: GasEstimate): string {
+  const price = estimate.gasPrice !== undefined
+    ? `${ethers.formatUnits(estimate.gasPrice, 'gwei')} gwei (legacy)`
+    : `max ${ethers.formatUnits(estimate.maxFeePerGas!, 'gwei')} gwei, tip ${ethers.formatUnits(estimate.maxPriorityFeePerGas!, 'gwei')} gwei`;
+  return `${ethers.formatEther(estimate.cost)} (at most ${ethers.formatEther(estimate.maxCost)}), gas limit ${estimate.gasLimit} at ${price}`;
+}
+
+function parseUnits(value: string | undefined, unit: 'gwei' | 'ether', option: string): bigint | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  let parsed: bigint;
+  try {
+    parsed = ethers.parseUnits(value.trim(), unit);
+  } catch {
+    throw new ValidationError(`${option} must be a number, got '${value}'.`);
+  }
+  if (parsed < BigInt(0)) {
+    throw new ValidationError(`${option} cannot be negative.`);
+  }
+  return parsed;
+}
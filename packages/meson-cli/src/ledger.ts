@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EncodeSwapResult } from './types';
+import { SwapState, SWAP_STATES, isFinalState } from './status';
+import { ValidationError } from './errors';
+
+// Default ledger location, shared by every run on this machine
+export const DEFAULT_LEDGER_PATH = path.join(os.homedir(), '.meson-cli', 'ledger.json');
+
+/**
+ * States of a signed swap the relayer did not accept: its submission was
+ * rejected, or got no response and may or may not have arrived
+ */
+export type SubmissionState = 'SUBMIT_FAILED' | 'SUBMIT_UNCONFIRMED';
+
+export type LedgerState = SwapState | SubmissionState;
+
+// Every state a ledger entry can be in, for validating user input
+export const LEDGER_STATES: LedgerState[] = [...SWAP_STATES, 'SUBMIT_FAILED', 'SUBMIT_UNCONFIRMED'];
+
+/**
+ * A swap signed or sent by this CLI
+ */
+export interface LedgerEntry {
+  timestamp: string;      // When the swap was submitted, or its submission failed
+  command: 'bridge' | 'bridge-contract' | 'bridge-batch';
+  network: string;        // Meson network the swap was submitted to
+  from: string;           // Source chain:token
+  to: string;             // Destination chain:token
+  amount: string;
+  fee?: EncodeSwapResult['fee'];
+  encoded: string;        // Unique per swap, used as the ledger key
+  swapId?: string;        // Missing if the relayer was never notified of a contract swap
+  txHash?: string;        // transferToMeson transaction (bridge-contract)
+  fromAddress: string;
+  recipient: string;
+  transferContract?: string;
+  status: LedgerState;    // Last known state
+  statusUpdatedAt: string;
+  error?: string;         // Why the relayer was not notified, if it was not
+}
+
+export interface LedgerFilters {
+  chain?: string;         // Source or destination chain id
+  since?: Date;
+  until?: Date;
+  status?: LedgerState[];
+}
+
+/**
+ * Whether an entry can no longer change: the swap is final, or its submission was rejected
+ */
+export function isSettledEntry(entry: LedgerEntry): boolean {
+  if (entry.status === 'SUBMIT_FAILED') {
+    return true;
+  }
+  if (entry.status === 'SUBMIT_UNCONFIRMED') {
+    return false;
+  }
+  return isFinalState(entry.status);
+}
+
+/**
+ * Resolves the ledger path from the --ledger option or MESON_LEDGER env var
+ */
+export function resolveLedgerPath(option?: string, env: NodeJS.ProcessEnv = process.env): string {
+  return option || env.MESON_LEDGER || DEFAULT_LEDGER_PATH;
+}
+
+/**
+ * Parses a --since / --until date
+ *
+ * A plain date (YYYY-MM-DD) means the start of that day in UTC; with
+ * `endOfDay` it means the end of that day, so `--until` includes it.
+ */
+export function parseLedgerDate(value: string, name: string, endOfDay = false): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${name} must be a date such as 2024-05-01 or 2024-05-01T12:00:00Z, got '${value}'.`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    date.setUTCMilliseconds(-1);
+  }
+  return date;
+}
+
+/**
+ * Selects ledger entries matching all given filters, newest first
+ */
+export function filterLedger(entries: LedgerEntry[], filters: LedgerFilters): LedgerEntry[] {
+  return entries
+    .filter(entry => {
+      const time = new Date(entry.timestamp).getTime();
+      if (filters.chain && entry.from.split(':')[0] !== filters.chain && entry.to.split(':')[0] !== filters.chain) {
+        return false;
+      }
+      if (filters.since && time < filters.since.getTime()) {
+        return false;
+      }
+      if (filters.until && time > filters.until.getTime()) {
+        return false;
+      }
+      if (filters.status && filters.status.length > 0 && !filters.status.includes(entry.status)) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Swap ledger stored as a JSON file
+ *
+ * The file is re-read before every change and replaced atomically, so runs
+ * that finish one after another never lose each other's entries.
+ */
+export class SwapLedger {
+  readonly file: string;
+
+  constructor(file: string = DEFAULT_LEDGER_PATH) {
+    this.file = file;
+  }
+
+  /**
+   * Returns every entry in the ledger
+   */
+  list(): LedgerEntry[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+
+    try {
+      const entries = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      if (!Array.isArray(entries)) {
+        throw new Error('expected an array of entries');
+      }
+      return entries;
+    } catch (error) {
+      throw new ValidationError(`Ledger ${this.file} cannot be read: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  /**
+   * Adds an entry, replacing any previous entry for the same encoded swap
+   */
+  record(entry: LedgerEntry): void {
+    const entries = this.list().filter(e => e.encoded !== entry.encoded);
+    entries.push(entry);
+    this.write(entries);
+  }
+
+  /**
+   * Updates the entry of an encoded swap
+   * @returns The updated entry, or undefined if the swap is not in the ledger
+   */
+  update(encoded: string, changes: Partial<LedgerEntry>): LedgerEntry | undefined {
+    const entries = this.list();
+    const index = entries.findIndex(e => e.encoded === encoded);
+    if (index < 0) {
+      return undefined;
+    }
+
+    entries[index] = { ...entries[index], ...changes };
+    this.write(entries);
+    return entries[index];
+  }
+
+  private write(entries: LedgerEntry[]): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(entries, null, 2) + '\n');
+    fs.renameSync(tmp, this.file);
+  }
+}
@@ -0,0 +1,114 @@
+import { MesonCliError, MesonApiError, ContractRevertError, exitCodeFor } from './errors';
+
+// human: progress lines; json: one result object; ndjson: one event per line
+export type OutputMode = 'human' | 'json' | 'ndjson';
+
+// Steps reported as ndjson events while a command runs
+export type StepEvent =
+  | 'validated'
+  | 'deployed'
+  | 'gas'
+  | 'encoded'
+  | 'signed'
+  | 'approved'
+  | 'mined'
+  | 'submitted'
+  | 'status'
+  | 'row';
+
+export interface ErrorShape {
+  name: string;
+  message: string;
+  exitCode: number;
+  code?: number;       // Relayer `error.code`
+  dataCode?: string;   // Relayer `error.data.code`
+  httpStatus?: number;
+  reason?: string;     // Contract revert reason
+}
+
+/**
+ * Converts an error into the structured shape used by machine-readable output
+ */
+export function serializeError(error: unknown): ErrorShape {
+  const shape: ErrorShape = {
+    name: error instanceof MesonCliError ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error),
+    exitCode: exitCodeFor(error)
+  };
+
+  if (error instanceof MesonApiError) {
+    shape.code = error.code;
+    shape.dataCode = error.dataCode;
+    shape.httpStatus = error.httpStatus;
+  }
+
+  if (error instanceof ContractRevertError) {
+    shape.reason = error.reason;
+  }
+
+  return shape;
+}
+
+// JSON replacer that keeps bigint values readable
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Writes command output in the selected mode
+ *
+ * Human-readable lines are only printed in `human` mode. In `json` mode a
+ * single result (or error) object is written to stdout when the command ends;
+ * in `ndjson` mode every step is streamed as its own line, followed by a
+ * final `result` or `error` event.
+ */
+export class Output {
+  readonly mode: OutputMode;
+  private write: (line: string) => void;
+
+  constructor(mode: OutputMode = 'human', write: (line: string) => void = line => process.stdout.write(line)) {
+    this.mode = mode;
+    this.write = write;
+  }
+
+  // Whether human-readable output is suppressed
+  get machine(): boolean {
+    return this.mode !== 'human';
+  }
+
+  // Print a human-readable line
+  log(...args: unknown[]): void {
+    if (!this.machine) {
+      console.log(...args);
+    }
+  }
+
+  // Stream a step event (ndjson only)
+  step(event: StepEvent, data: Record<string, unknown> = {}): void {
+    if (this.mode === 'ndjson') {
+      this.writeJson({ event, timestamp: new Date().toISOString(), ...data });
+    }
+  }
+
+  // Write the final result of a command
+  result(command: string, data: Record<string, unknown>): void {
+    if (this.mode === 'json') {
+      this.writeJson({ ok: true, command, ...data }, 2);
+    } else if (this.mode === 'ndjson') {
+      this.writeJson({ event: 'result', timestamp: new Date().toISOString(), ok: true, command, ...data });
+    }
+  }
+
+  // Write a command failure
+  error(error: unknown): void {
+    if (this.mode === 'json') {
+      this.writeJson({ ok: false, error: serializeError(error) }, 2);
+    } else if (this.mode === 'ndjson') {
+      this.writeJson({ event: 'error', timestamp: new Date().toISOString(), ok: false, error: serializeError(error) });
+    }
+  }
+
+  private writeJson(value: unknown, indent?: number): void {
+    this.write(JSON.stringify(value, replacer, indent) + '\n');
+  }
+}
@@ -0,0 +1,126 @@
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { ValidationError } from './errors';
+
+/**
+ * Whether interactive prompts can be shown
+ */
+export function isInteractive(): boolean {
+  return !!process.stdin.isTTY && !!process.stderr.isTTY;
+}
+
+/**
+ * Writes to stderr unless muted, to hide what readline echoes
+ */
+class MutableOutput extends Writable {
+  muted = false;
+
+  _write(chunk: Buffer | string, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    if (!this.muted) {
+      process.stderr.write(chunk, encoding);
+    }
+    callback();
+  }
+}
+
+/**
+ * Asks a question on the terminal and returns the answer
+ *
+ * Prompts are written to stderr so they never mix with command output.
+ *
+ * @param question The question to show
+ * @param options.hidden Do not echo the typed characters (for secrets)
+ * @returns The trimmed answer
+ */
+export async function prompt(question: string, options: { hidden?: boolean } = {}): Promise<string> {
+  const output = new MutableOutput();
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: true
+  });
+
+  try {
+    // Ctrl+C or end of input cancels instead of leaving the question pending
+    const answer = await new Promise<string>((resolve, reject) => {
+      let answered = false;
+      rl.question(question, text => {
+        answered = true;
+        resolve(text);
+      });
+      // The question is written by now; echo nothing after it for secrets
+      output.muted = !!options.hidden;
+      rl.on('SIGINT', () => rl.close());
+      rl.on('close', () => {
+        if (!answered) {
+          process.stderr.write('\n');
+          reject(new ValidationError('Cancelled.'));
+        }
+      });
+    });
+    if (options.hidden) {
+      process.stderr.write('\n');
+    }
+    return answer.trim();
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Asks for a secret without echoing it
+ */
+export function promptSecret(question: string): Promise<string> {
+  return prompt(question, { hidden: true });
+}
+
+/**
+ * Asks until the answer is accepted by `parse`
+ *
+ * The message of whatever `parse` throws is shown before asking again.
+ *
+ * @param question The question to show
+ * @param parse Converts the answer, throwing if it is not acceptable
+ * @returns The converted answer
+ */
+export async function promptValid<T>(question: string, parse: (answer: string) => T): Promise<T> {
+  for (;;) {
+    const answer = await prompt(question);
+    try {
+      return parse(answer);
+    } catch (error) {
+      process.stderr.write(`  ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  }
+}
+
+/**
+ * Asks to pick one of several choices, by number or by name
+ *
+ * @param question The question to show above the numbered list
+ * @param choices The choices, with the name typed to select them and a label to show
+ * @returns The value of the picked choice
+ */
+export function promptChoice<T>(question: string, choices: { name: string, label: string, value: T }[]): Promise<T> {
+  process.stderr.write(`${question}\n`);
+  choices.forEach((choice, i) => process.stderr.write(`  ${String(i + 1).padStart(2)}) ${choice.label}\n`));
+
+  return promptValid(`Choose 1-${choices.length} or a name: `, answer => {
+    const index = Number(answer);
+    const choice = Number.isInteger(index) && index >= 1 && index <= choices.length
+      ? choices[index - 1]
+      : choices.find(c => c.name.toLowerCase() === answer.toLowerCase());
+    if (!choice) {
+      throw new Error(`'${answer}' is not one of the choices.`);
+    }
+    return choice.value;
+  });
+}
+
+/**
+ * Asks a yes/no question; anything but y or yes is a no
+ */
+export async function promptConfirm(question: string): Promise<boolean> {
+  const answer = await prompt(`${question} [y/N] `);
+  return /^y(es)?$/i.test(answer);
+}
@@ -0,0 +1,112 @@
+import { MesonApiService } from './api';
+import { Chain, EncodeSwapResult } from './types';
+import { ValidationError } from './errors';
+import { MesonAmount } from './amount';
+
+// Address used for encoding quotes when the caller does not supply one
+export const QUOTE_PLACEHOLDER_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+
+export interface RouteQuote {
+  from: string;
+  to: string;
+  amount: string;
+  fee?: EncodeSwapResult['fee'];
+  converted?: EncodeSwapResult['converted'];
+  netReceived?: string;  // Amount minus the total fee, in source token units
+  error?: string;        // Set when the relayer refused to quote this route
+}
+
+/**
+ * Expands destination candidates from explicit `chain:token` values and a
+ * `*:token` (or `chain:*`) pattern
+ *
+ * @param chains Supported chains from the MesonFi API
+ * @param from Source `chain:token`, excluded from the candidates
+ * @param to Explicit destination candidates
+ * @param toPattern Destination pattern such as `*:usdc` (optional)
+ * @returns Unique destination `chain:token` values
+ */
+export function expandDestinations(chains: Chain[], from: string, to: string[] = [], toPattern?: string): string[] {
+  const destinations = [...to];
+
+  if (toPattern) {
+    const [chainPattern, tokenPattern] = toPattern.split(':');
+    if (!chainPattern || !tokenPattern) {
+      throw new ValidationError(`Invalid destination pattern '${toPattern}'. Expected <chain|*>:<token|*>.`);
+    }
+
+    for (const chain of chains) {
+      if (chainPattern !== '*' && chain.id !== chainPattern) {
+        continue;
+      }
+      for (const token of chain.tokens) {
+        if (tokenPattern === '*' || token.id === tokenPattern) {
+          destinations.push(`${chain.id}:${token.id}`);
+        }
+      }
+    }
+  }
+
+  const [fromChain] = from.split(':');
+  const unique = Array.from(new Set(destinations)).filter(d => d.split(':')[0] !== fromChain);
+
+  if (unique.length === 0) {
+    throw new ValidationError('No destination candidates. Provide --to <chain:token> or a --to-chain pattern such as *:usdc.');
+  }
+
+  return unique;
+}
+
+/**
+ * Computes the amount left after the total fee, without floating point drift
+ */
+export function netAmount(amount: string, totalFee: string): string {
+  return MesonAmount.parse(amount).sub(MesonAmount.fromRelayer(totalFee, 'Fee')).toString();
+}
+
+/**
+ * Quotes each route through the relayer's encode endpoint and ranks them by total fee
+ *
+ * Routes the relayer rejects are kept with their error and sorted last.
+ *
+ * @param api The Meson API service
+ * @param from Source `chain:token`
+ * @param destinations Destination `chain:token` candidates
+ * @param amount Amount to bridge
+ * @param fromAddress Address used as the swap initiator
+ * @param recipient Recipient address used for encoding
+ * @returns Quotes ordered from cheapest to most expensive
+ */
+export async function quoteRoutes(
+  api: MesonApiService,
+  from: string,
+  destinations: string[],
+  amount: string,
+  fromAddress: string,
+  recipient: string
+): Promise<RouteQuote[]> {
+  const quotes: RouteQuote[] = [];
+
+  for (const to of destinations) {
+    try {
+      const encoded = await api.encodeSwap(from, to, amount, fromAddress, recipient);
+      quotes.push({
+        from,
+        to,
+        amount,
+        fee: encoded.fee,
+        converted: encoded.converted,
+        netReceived: netAmount(amount, encoded.fee.totalFee)
+      });
+    } catch (error) {
+      quotes.push({ from, to, amount, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return quotes.sort((a, b) => {
+    if (!a.fee || !b.fee) {
+      return (a.fee ? 0 : 1) - (b.fee ? 0 : 1);
+    }
+    return MesonAmount.fromRelayer(a.fee.totalFee, 'Fee').cmp(MesonAmount.fromRelayer(b.fee.totalFee, 'Fee'));
+  });
+}
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ValidationError } from './errors';
+
+// Default registry location, next to the swap ledger
+export const DEFAULT_REGISTRY_PATH = path.join(os.homedir(), '.meson-cli', 'contracts.json');
+
+/**
+ * A TransferToMeson contract deployed by this CLI
+ */
+export interface RegistryEntry {
+  chain: string;          // Meson chain id (e.g., eth)
+  chainId: string;        // EVM chain ID reported by the RPC, in decimal
+  owner: string;          // Wallet the contract was deployed for
+  mesonContract: string;
+  address: string;
+  salt: string;           // CREATE2 salt
+  txHash?: string;        // Missing if the contract was found already deployed
+  deployedAt: string;
+}
+
+/**
+ * Resolves the registry path from the --registry option or MESON_REGISTRY env var
+ */
+export function resolveRegistryPath(option?: string, env: NodeJS.ProcessEnv = process.env): string {
+  return option || env.MESON_REGISTRY || DEFAULT_REGISTRY_PATH;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Registry of TransferToMeson contracts per chain and wallet, stored as a JSON file
+ *
+ * Like the swap ledger, the file is re-read before every change and
+ * replaced atomically.
+ */
+export class ContractRegistry {
+  readonly file: string;
+
+  constructor(file: string = DEFAULT_REGISTRY_PATH) {
+    this.file = file;
+  }
+
+  /**
+   * Returns every recorded contract
+   */
+  list(): RegistryEntry[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+
+    try {
+      const entries = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      if (!Array.isArray(entries)) {
+        throw new Error('expected an array of entries');
+      }
+      return entries;
+    } catch (error) {
+      throw new ValidationError(`Contract registry ${this.file} cannot be read: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  /**
+   * Finds the contract of a wallet for a Meson contract on a chain
+   *
+   * @param chainId EVM chain ID
+   * @param owner Wallet address
+   * @param mesonContract Meson contract address
+   */
+  find(chainId: bigint | string, owner: string, mesonContract: string): RegistryEntry | undefined {
+    return this.list().find(e =>
+      e.chainId === String(chainId) && sameAddress(e.owner, owner) && sameAddress(e.mesonContract, mesonContract)
+    );
+  }
+
+  /**
+   * Adds a contract, replacing any previous entry for the same chain, wallet and Meson contract
+   */
+  record(entry: RegistryEntry): void {
+    const entries = this.list().filter(e =>
+      !(e.chainId === entry.chainId && sameAddress(e.owner, entry.owner) && sameAddress(e.mesonContract, entry.mesonContract))
+    );
+    entries.push(entry);
+    this.write(entries);
+  }
+
+  private write(entries: RegistryEntry[]): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(entries, null, 2) + '\n');
+    fs.renameSync(tmp, this.file);
+  }
+}
@@ -1,15 +1,20 @@
 import { ethers } from 'ethers';
+import type { MesonSigner } from './signers';
 
 /**
  * Signs a message hash directly (without the Ethereum message prefix)
  * @param messageHash - The hash to sign (must be a valid hex string with 0x prefix)
- * @param privateKey - The private key to sign with
+ * @param signer - The signer to use, or a raw private key
  * @returns The signature as a hex string
  */
-export async function signMessageHash(messageHash: string, privateKey: string): Promise<string> {
+export async function signMessageHash(messageHash: string, signer: MesonSigner | string): Promise<string> {
   try {
+    if (typeof signer !== 'string') {
+      return await signer.signHash(messageHash);
+    }
+    
     // Create a wallet from the private key
-    const wallet = new ethers.Wallet(privateKey);
+    const wallet = new ethers.Wallet(signer);
     
     // Sign the hash directly
     // This approach directly signs the hash without adding the Ethereum message prefix
@@ -31,4 +36,76 @@ export async function signMessageHash(messageHash: string, privateKey: string):
 export function deriveAddress(privateKey: string): string {
   const wallet = new ethers.Wallet(privateKey);
   return wallet.address;
-} 
\ No newline at end of file
+} 
+
+// Notices Meson hashes into its signing type hashes
+const NOTICE_SIGN_REQUEST = 'Sign to request a swap on Meson';
+const NOTICE_SIGN_RELEASE = 'Sign to release a swap on Meson';
+const NOTICE_TESTNET_SUFFIX = ' (Testnet)';
+
+/**
+ * Signing scheme of a Meson signing request
+ */
+export interface SigningScheme {
+  kind: 'request' | 'release';
+  testnet: boolean;
+}
+
+/**
+ * Works out the signing scheme from the relayer's `signingRequest.message`
+ * @param message - The message as returned by the relayer (plain text or hex-encoded text)
+ * @param testnet - Network to assume when the message does not name one
+ * @returns The signing scheme
+ */
+export function signingSchemeFrom(message: string, testnet: boolean): SigningScheme {
+  let text = message;
+  if (ethers.isHexString(message)) {
+    try {
+      text = ethers.toUtf8String(message);
+    } catch {
+      text = '';
+    }
+  }
+  
+  return {
+    kind: text.includes(NOTICE_SIGN_RELEASE) ? 'release' : 'request',
+    testnet: text.includes(NOTICE_SIGN_REQUEST) || text.includes(NOTICE_SIGN_RELEASE)
+      ? text.includes(NOTICE_TESTNET_SUFFIX)
+      : testnet
+  };
+}
+
+/**
+ * Computes the hash Meson expects to be signed for a swap
+ * 
+ * Requests sign keccak256(typehash, keccak256(encodedSwap)); releases sign
+ * keccak256(typehash, keccak256(encodedSwap, recipient)), with the typehash
+ * derived from the notice text as in the Meson contracts.
+ * 
+ * @param encodedSwap - The encoded swap
+ * @param recipient - The recipient address (used by release signatures)
+ * @param scheme - The signing scheme
+ * @returns The 32-byte hash to sign
+ */
+export function computeSigningHash(encodedSwap: string, recipient: string, scheme: SigningScheme): string {
+  const suffix = scheme.testnet ? NOTICE_TESTNET_SUFFIX : '';
+  
+  if (scheme.kind === 'release') {
+    const typehash = ethers.solidityPackedKeccak256(['string'], [`bytes32 ${NOTICE_SIGN_RELEASE}${suffix}address Recipient`]);
+    const swapHash = ethers.solidityPackedKeccak256(['bytes32', 'address'], [encodedSwap, recipient]);
+    return ethers.solidityPackedKeccak256(['bytes32', 'bytes32'], [typehash, swapHash]);
+  }
+  
+  const typehash = ethers.solidityPackedKeccak256(['string'], [`bytes32 ${NOTICE_SIGN_REQUEST}${suffix}`]);
+  return ethers.solidityPackedKeccak256(['bytes32', 'bytes32'], [typehash, ethers.keccak256(encodedSwap)]);
+}
+
+/**
+ * Recovers the address that signed a hash directly (without the Ethereum message prefix)
+ * @param messageHash - The signed hash
+ * @param signature - The signature
+ * @returns The signer's address
+ */
+export function recoverHashSigner(messageHash: string, signature: string): string {
+  return ethers.recoverAddress(messageHash, signature);
+}
@@ -0,0 +1,248 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import { ValidationError, NetworkError } from './errors';
+import { isInteractive, promptSecret } from './prompt';
+
+// Default BIP-44 path for Ethereum accounts; {index} is replaced with --hd-index
+export const DEFAULT_HD_PATH = "m/44'/60'/0'/0/{index}";
+
+const REMOTE_SIGNER_TIMEOUT_MS = 30000;
+
+/**
+ * A key that can sign Meson swap hashes and send transactions
+ */
+export interface MesonSigner {
+  readonly kind: 'private-key' | 'keystore' | 'mnemonic' | 'remote';
+  getAddress(): Promise<string>;
+  // Signs a 32-byte hash directly, without the Ethereum message prefix
+  signHash(hash: string): Promise<string>;
+  // Returns an ethers signer for sending transactions on the provider's chain
+  connect(provider: ethers.Provider): Promise<ethers.Signer>;
+  // Chain the signer sends transactions on, or undefined if it follows the provider
+  getChainId(): Promise<bigint | undefined>;
+}
+
+/**
+ * Signer backed by a local ethers wallet (raw key, keystore or mnemonic)
+ */
+export class LocalSigner implements MesonSigner {
+  readonly kind: MesonSigner['kind'];
+  private wallet: ethers.Wallet | ethers.HDNodeWallet;
+
+  constructor(wallet: ethers.Wallet | ethers.HDNodeWallet, kind: MesonSigner['kind'] = 'private-key') {
+    this.wallet = wallet;
+    this.kind = kind;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async signHash(hash: string): Promise<string> {
+    return this.wallet.signingKey.sign(hash).serialized;
+  }
+
+  async connect(provider: ethers.Provider): Promise<ethers.Signer> {
+    return this.wallet.connect(provider);
+  }
+
+  async getChainId(): Promise<bigint | undefined> {
+    return undefined;
+  }
+}
+
+/**
+ * Signer that delegates to a remote JSON-RPC endpoint
+ *
+ * Hashes are signed with `eth_sign` and transactions are sent with
+ * `eth_sendTransaction` on the remote endpoint. The endpoint must sign the
+ * 32-byte hash as given; signatures over a prefixed message are rejected.
+ * Transactions are only sent if the endpoint is on the provider's chain.
+ */
+export class RemoteSigner implements MesonSigner {
+  readonly kind = 'remote' as const;
+  private url: string;
+  private address?: string;
+
+  constructor(url: string, address?: string) {
+    this.url = url;
+    this.address = address ? ethers.getAddress(address) : undefined;
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts = await this.send('eth_accounts', []);
+      if (!Array.isArray(accounts)) {
+        throw this.invalidResult('eth_accounts', accounts);
+      }
+      if (accounts.length === 0) {
+        throw new ValidationError(`Remote signer ${this.url} did not report any accounts. Provide --signer-address.`);
+      }
+      if (typeof accounts[0] !== 'string' || !ethers.isAddress(accounts[0])) {
+        throw this.invalidResult('eth_accounts', accounts);
+      }
+      this.address = ethers.getAddress(accounts[0]);
+    }
+    return this.address;
+  }
+
+  async signHash(hash: string): Promise<string> {
+    const address = await this.getAddress();
+    const signature = await this.send('eth_sign', [address, hash]);
+    if (!ethers.isHexString(signature, 65)) {
+      throw this.invalidResult('eth_sign', signature);
+    }
+
+    if (ethers.recoverAddress(hash, signature) !== address) {
+      throw new ValidationError(
+        `Remote signer ${this.url} did not sign the raw hash for ${address}. ` +
+        'Meson requires a signature without the Ethereum message prefix.'
+      );
+    }
+    return signature;
+  }
+
+  async connect(provider: ethers.Provider): Promise<ethers.Signer> {
+    const address = await this.getAddress();
+
+    // Transactions are signed and broadcast by the remote endpoint, so it must be on the chain the user chose
+    const { chainId } = await provider.getNetwork();
+    const remoteChainId = await this.getChainId();
+    if (remoteChainId !== chainId) {
+      throw new ValidationError(
+        `Remote signer ${this.url} is on chain ID ${remoteChainId}, but the RPC endpoint is on chain ID ${chainId}. ` +
+        'Refusing to send transactions on another chain.'
+      );
+    }
+
+    // A static network skips detection, so an unreachable endpoint fails the request instead of retrying forever
+    const network = ethers.Network.from(chainId);
+    return new ethers.JsonRpcSigner(new ethers.JsonRpcProvider(this.url, network, { staticNetwork: network }), address);
+  }
+
+  async getChainId(): Promise<bigint> {
+    const chainId = await this.send('eth_chainId', []);
+    if (!ethers.isHexString(chainId) || chainId === '0x') {
+      throw this.invalidResult('eth_chainId', chainId);
+    }
+    return BigInt(chainId);
+  }
+
+  // Plain JSON-RPC call; a JsonRpcProvider would keep retrying network detection on an unreachable endpoint
+  private async send(method: string, params: unknown[]): Promise<unknown> {
+    const request = new ethers.FetchRequest(this.url);
+    request.body = { jsonrpc: '2.0', id: 1, method, params };
+    request.timeout = REMOTE_SIGNER_TIMEOUT_MS;
+
+    let response: ethers.FetchResponse;
+    try {
+      response = await request.send();
+    } catch (error) {
+      throw new NetworkError(`Remote signer ${this.url} is unreachable: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+
+    if (!response.ok()) {
+      throw new NetworkError(`Remote signer ${this.url} returned HTTP ${response.statusCode}`);
+    }
+
+    const payload = response.bodyJson;
+    if (payload.error) {
+      throw new ValidationError(`Remote signer ${this.url} rejected ${method}: ${payload.error.message}`);
+    }
+    return payload.result;
+  }
+
+  private invalidResult(method: string, result: unknown): ValidationError {
+    return new ValidationError(`Remote signer ${this.url} returned an invalid ${method} result: ${JSON.stringify(result)}`);
+  }
+}
+
+/**
+ * Signer options as given on the command line
+ */
+export interface SignerOptions {
+  signer?: string;          // keystore:<path> | mnemonic | remote:<url>; raw private key if omitted
+  privateKey?: string;
+  passwordFile?: string;    // Keystore password file
+  hdPath?: string;          // Mnemonic derivation path
+  hdIndex?: string;         // Mnemonic account index
+  signerAddress?: string;   // Account to use on a remote signer
+}
+
+/**
+ * Reads a secret from a file, an environment variable or a hidden prompt
+ */
+async function readSecret(name: string, envVar: string, file?: string): Promise<string> {
+  if (file) {
+    return fs.readFileSync(file, 'utf8').replace(/\r?\n$/, '');
+  }
+  const fromEnv = process.env[envVar];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (!isInteractive()) {
+    throw new ValidationError(`${name} must be provided via the ${envVar} environment variable when not running in a terminal.`);
+  }
+  return promptSecret(`${name}: `);
+}
+
+/**
+ * Creates the signer selected by --signer
+ *
+ * @param options Signer options from the command line
+ * @returns The signer
+ */
+export async function createSigner(options: SignerOptions): Promise<MesonSigner> {
+  const spec = options.signer;
+
+  if (!spec) {
+    const privateKey = options.privateKey || process.env.PRIVATE_KEY;
+    if (!privateKey) {
+      throw new ValidationError('Private key must be provided via --private-key option or PRIVATE_KEY environment variable, or another signer selected with --signer.');
+    }
+    try {
+      return new LocalSigner(new ethers.Wallet(privateKey));
+    } catch {
+      // ethers echoes the value in its message, so the key is not passed on
+      throw new ValidationError('Invalid private key: expected 32 bytes of hex, with or without a 0x prefix.');
+    }
+  }
+
+  if (spec.startsWith('keystore:')) {
+    const path = spec.slice('keystore:'.length);
+    if (!fs.existsSync(path)) {
+      throw new ValidationError(`Keystore file '${path}' does not exist.`);
+    }
+    const password = await readSecret('Keystore password', 'KEYSTORE_PASSWORD', options.passwordFile);
+    try {
+      const wallet = await ethers.Wallet.fromEncryptedJson(fs.readFileSync(path, 'utf8'), password);
+      return new LocalSigner(wallet, 'keystore');
+    } catch (error) {
+      throw new ValidationError(`Could not decrypt keystore '${path}': ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  if (spec === 'mnemonic') {
+    const phrase = await readSecret('Mnemonic', 'MNEMONIC');
+    const index = options.hdIndex === undefined ? 0 : Number(options.hdIndex);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new ValidationError(`--hd-index must be a non-negative integer, got '${options.hdIndex}'.`);
+    }
+    const path = (options.hdPath || DEFAULT_HD_PATH).replace('{index}', String(index));
+    try {
+      return new LocalSigner(ethers.HDNodeWallet.fromPhrase(phrase, undefined, path), 'mnemonic');
+    } catch (error) {
+      throw new ValidationError(`Invalid mnemonic or HD path '${path}': ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  if (spec.startsWith('remote:')) {
+    const url = spec.slice('remote:'.length);
+    if (!/^https?:\/\//.test(url)) {
+      throw new ValidationError(`Remote signer URL must start with http:// or https://, got '${url}'.`);
+    }
+    return new RemoteSigner(url, options.signerAddress);
+  }
+
+  throw new ValidationError(`Unknown signer '${spec}'. Expected keystore:<path>, mnemonic or remote:<url>.`);
+}
@@ -0,0 +1,150 @@
+import { MesonApiService } from './api';
+import { SwapStatus } from './types';
+import { EXIT_CODES, MesonApiError, NetworkError } from './errors';
+
+// Lifecycle states of a Meson swap, in the order they normally occur
+export type SwapState = 'PENDING' | 'POSTED' | 'BONDED' | 'LOCKED' | 'RELEASED' | 'EXECUTED' | 'CANCELLED' | 'EXPIRED';
+
+// Process exit codes used by the status command
+export const STATUS_EXIT_CODES = {
+  RELEASED: EXIT_CODES.SUCCESS,
+  EXPIRED: EXIT_CODES.SWAP_EXPIRED,
+  PENDING: EXIT_CODES.SWAP_PENDING,
+  TIMEOUT: EXIT_CODES.TIMEOUT
+};
+
+// Every state, for validating user input
+export const SWAP_STATES: SwapState[] = ['PENDING', 'POSTED', 'BONDED', 'LOCKED', 'RELEASED', 'EXECUTED', 'CANCELLED', 'EXPIRED'];
+
+const STATE_ORDER: SwapState[] = ['PENDING', 'POSTED', 'BONDED', 'LOCKED', 'RELEASED', 'EXECUTED'];
+
+/**
+ * Derives the current state of a swap from its relayer events
+ *
+ * @param status The swap status returned by the Meson API
+ * @returns The most advanced state the swap has reached
+ */
+export function resolveSwapState(status: SwapStatus): SwapState {
+  const names = status.events.map(e => e.name.toUpperCase());
+
+  if (names.includes('CANCELLED')) {
+    return 'CANCELLED';
+  }
+
+  let state: SwapState = 'PENDING';
+  for (const name of names) {
+    const index = STATE_ORDER.indexOf(name as SwapState);
+    if (index > STATE_ORDER.indexOf(state)) {
+      state = name as SwapState;
+    }
+  }
+
+  // A swap that expired before reaching the recipient can no longer complete
+  if (status.expired && !isSuccessState(state)) {
+    return 'EXPIRED';
+  }
+
+  return state;
+}
+
+/**
+ * Whether the recipient has received the funds
+ */
+export function isSuccessState(state: SwapState): boolean {
+  return state === 'RELEASED' || state === 'EXECUTED';
+}
+
+/**
+ * Whether the swap will not change state any more
+ */
+export function isFinalState(state: SwapState): boolean {
+  return isSuccessState(state) || state === 'CANCELLED' || state === 'EXPIRED';
+}
+
+/**
+ * Maps a swap state to the exit code of the status command
+ *
+ * Swaps still in progress map to PENDING; TIMEOUT is only returned by the
+ * status command when a watch runs out of time.
+ */
+export function exitCodeForState(state: SwapState): number {
+  if (isSuccessState(state)) {
+    return STATUS_EXIT_CODES.RELEASED;
+  }
+  if (state === 'CANCELLED' || state === 'EXPIRED') {
+    return STATUS_EXIT_CODES.EXPIRED;
+  }
+  return STATUS_EXIT_CODES.PENDING;
+}
+
+/**
+ * Whether a failed status lookup only means the swap is not known yet
+ *
+ * The relayer answers 404 for a swap it has not indexed yet (e.g. right
+ * after submission), and the network may drop a request while watching.
+ */
+export function isStatusNotYetKnown(error: unknown): boolean {
+  return error instanceof NetworkError || (error instanceof MesonApiError && error.httpStatus === 404);
+}
+
+export interface WatchOptions {
+  intervalMs: number;
+  timeoutMs: number;
+  onUpdate?: (status: SwapStatus, state: SwapState) => void;
+  onRetry?: (error: Error) => void;   // Called when a lookup fails but the watch goes on
+}
+
+export interface WatchResult {
+  status?: SwapStatus;
+  state: SwapState;
+  timedOut: boolean;
+}
+
+/**
+ * Polls the swap status until it reaches a final state or the timeout elapses
+ *
+ * `onUpdate` is called on the first poll and whenever the state changes.
+ * Lookups of a swap the relayer does not know yet, and lookups that fail in
+ * transport, are retried at the next interval until the timeout.
+ *
+ * @param api The Meson API service
+ * @param swapIdOrEncoded Swap ID or encoded swap to look up
+ * @param options Polling interval, timeout and update callback
+ * @returns The last known status and whether the watch timed out
+ */
+export async function watchSwapStatus(
+  api: MesonApiService,
+  swapIdOrEncoded: string,
+  options: WatchOptions
+): Promise<WatchResult> {
+  const deadline = Date.now() + options.timeoutMs;
+  let lastState: SwapState | undefined;
+  let lastStatus: SwapStatus | undefined;
+
+  while (true) {
+    try {
+      lastStatus = await api.getSwapStatus(swapIdOrEncoded);
+    } catch (error) {
+      if (!isStatusNotYetKnown(error)) {
+        throw error;
+      }
+      options.onRetry?.(error as Error);
+    }
+
+    const state = lastStatus ? resolveSwapState(lastStatus) : 'PENDING';
+    if (lastStatus && state !== lastState) {
+      lastState = state;
+      options.onUpdate?.(lastStatus, state);
+    }
+
+    if (isFinalState(state)) {
+      return { status: lastStatus, state, timedOut: false };
+    }
+
+    if (Date.now() + options.intervalMs > deadline) {
+      return { status: lastStatus, state, timedOut: true };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, options.intervalMs));
+  }
+}
@@ -0,0 +1,242 @@
+import axios, { AxiosError, AxiosProxyConfig, AxiosRequestConfig } from 'axios';
+import { MesonApiResponse } from './types';
+import { MesonApiError, NetworkError } from './errors';
+
+// HTTP statuses worth retrying: rate limiting and transient gateway failures
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+export interface TransportOptions {
+  baseUrl: string;
+  headers: Record<string, string>;
+  proxy?: AxiosProxyConfig;
+  timeoutMs: number;         // Per-attempt request timeout
+  maxRetries: number;        // Retries after the first attempt
+  retryBaseDelayMs: number;  // Backoff before the first retry
+  retryMaxDelayMs: number;   // Upper bound for a single backoff or Retry-After wait
+  redactHeaders?: string[];  // Headers hidden in debug logs
+  log: (message: string, data?: any) => void;
+}
+
+export interface TransportRequest {
+  method: 'get' | 'post';
+  path: string;
+  body?: unknown;
+  retry?: boolean;  // Defaults to true for GET and false for POST
+}
+
+/**
+ * Whether an HTTP status marks a transient failure worth retrying
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status !== undefined && RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Converts a proxy URL into axios proxy settings
+ */
+export function parseProxy(proxyUrl: string): AxiosProxyConfig {
+  const url = new URL(proxyUrl);
+  const protocol = url.protocol.replace(':', '');
+  return {
+    protocol,
+    host: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : (protocol === 'https' ? 443 : 80),
+    auth: url.username
+      ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+      : undefined
+  };
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Computes an exponential backoff delay with full jitter
+ *
+ * @param attempt Zero-based retry attempt
+ * @param baseDelayMs Delay cap for the first retry
+ * @param maxDelayMs Maximum delay for any retry
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * cap);
+}
+
+/**
+ * Shared HTTP transport for the Meson relayer API
+ *
+ * Every request goes through `request`, which applies the configured
+ * timeout, unwraps the `{ result, error }` envelope and retries transient
+ * failures with exponential backoff, honoring Retry-After when present.
+ */
+export class HttpTransport {
+  private options: TransportOptions;
+
+  constructor(options: TransportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Sends a request and returns the `result` field of the response
+   *
+   * @param request Method, path, optional body and retry opt-in
+   * @param description What the request does, used in error messages (e.g. "fetching swap limits")
+   * @returns The unwrapped result
+   */
+  async request<T>(request: TransportRequest, description: string): Promise<T> {
+    const retry = request.retry ?? request.method === 'get';
+    const maxAttempts = retry ? this.options.maxRetries + 1 : 1;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(request, description);
+      } catch (error) {
+        const delay = this.retryDelay(error, attempt);
+        if (delay === undefined || attempt + 1 >= maxAttempts) {
+          throw error;
+        }
+
+        this.options.log(`Retrying ${description} in ${delay}ms (attempt ${attempt + 2} of ${maxAttempts})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Send a single attempt and unwrap the response envelope
+  private async send<T>(request: TransportRequest, description: string): Promise<T> {
+    const config: AxiosRequestConfig = {
+      method: request.method,
+      url: `${this.options.baseUrl}${request.path}`,
+      timeout: this.options.timeoutMs,
+      proxy: this.options.proxy,
+      headers: {
+        ...this.options.headers,
+        'Accept': 'application/json',
+        ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      }
+    };
+
+    if (request.body !== undefined) {
+      config.maxBodyLength = Infinity;
+      config.data = JSON.stringify(request.body);
+    }
+
+    this.options.log('Request config:', this.redact(config));
+    if (request.body !== undefined) {
+      this.options.log('Request payload:', request.body);
+    }
+
+    try {
+      const response = await axios(config);
+
+      this.options.log('Response data:', response.data);
+
+      return this.unwrap<T>(response.data, description);
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        if (!(error instanceof MesonApiError)) {
+          this.options.log('Unknown error:', error);
+        }
+        throw error;
+      }
+
+      this.options.log(`API Error: ${error.message}`);
+      if (!error.response) {
+        throw new NetworkError(`Error ${description}: ${error.message}`, error);
+      }
+
+      const status = error.response.status;
+      this.options.log(`Status: ${status}, Data:`, error.response.data);
+
+      // Relayer error payloads are also returned with 4xx/5xx statuses
+      const data = error.response.data as MesonApiResponse<T> | undefined;
+      if (data && typeof data === 'object' && data.error) {
+        throw this.apiError(data.error, description, status, error);
+      }
+
+      if (status >= 500 || status === 429) {
+        throw new NetworkError(`Error ${description}: relayer responded with HTTP ${status}`, error);
+      }
+      throw new MesonApiError(`Error ${description}: relayer responded with HTTP ${status}`, undefined, undefined, status, error);
+    }
+  }
+
+  // Build a typed error from a relayer error payload
+  private apiError(
+    error: NonNullable<MesonApiResponse<unknown>['error']>,
+    description: string,
+    httpStatus?: number,
+    cause?: unknown
+  ): MesonApiError {
+    return new MesonApiError(`Error ${description}: ${error.message}`, error.code, error.data?.code, httpStatus, cause);
+  }
+
+  // Extract the result from a `{ result, error }` response envelope
+  private unwrap<T>(data: MesonApiResponse<T>, description: string): T {
+    if (data && data.result !== undefined && data.result !== null) {
+      return data.result;
+    } else if (data && data.error) {
+      throw this.apiError(data.error, description);
+    } else {
+      throw new MesonApiError('Invalid response format from Meson API');
+    }
+  }
+
+  // Decide whether a failed attempt is retryable and how long to wait
+  private retryDelay(error: unknown, attempt: number): number | undefined {
+    const axiosError = this.axiosErrorOf(error);
+    if (!axiosError) {
+      return undefined;
+    }
+
+    const status = axiosError.response?.status;
+    if (status !== undefined && !isRetryableStatus(status)) {
+      return undefined;
+    }
+
+    const retryAfter = parseRetryAfter(axiosError.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.options.retryMaxDelayMs);
+    }
+
+    return backoffDelay(attempt, this.options.retryBaseDelayMs, this.options.retryMaxDelayMs);
+  }
+
+  // Find the axios error behind a typed transport error
+  private axiosErrorOf(error: unknown): AxiosError | undefined {
+    if (axios.isAxiosError(error)) {
+      return error;
+    }
+    const cause = error instanceof MesonApiError || error instanceof NetworkError ? error.cause : undefined;
+    return axios.isAxiosError(cause) ? cause : undefined;
+  }
+
+  // Hide sensitive headers in logged request configs
+  private redact(config: AxiosRequestConfig): AxiosRequestConfig {
+    const headers = { ...(config.headers as Record<string, string>) };
+    for (const name of this.options.redactHeaders || []) {
+      if (headers[name]) {
+        headers[name] = '***';
+      }
+    }
+    return { ...config, headers };
+  }
+}
@@ -0,0 +1,98 @@
+import { ethers } from 'ethers';
+import { Chain, ChainLimit } from './types';
+import { ValidationError } from './errors';
+import { MesonAmount } from './amount';
+
+// Tron addresses are base58 and start with T
+const TRON_ADDRESS_PATTERN = /^T[1-9A-HJ-NP-Za-km-z]{33}$/;
+
+/**
+ * Validates that a chain and token are supported
+ *
+ * @param chains Supported chains from the MesonFi API
+ * @param chainId Meson chain id (e.g., eth)
+ * @param tokenId Token id (e.g., usdc)
+ * @param type 'source' or 'destination', used in error messages
+ */
+export function validateChainToken(chains: Chain[], chainId: string, tokenId: string, type: string): void {
+  const chainInfo = chains.find(c => c.id === chainId);
+  if (!chainInfo) {
+    throw new ValidationError(`${type.charAt(0).toUpperCase() + type.slice(1)} chain '${chainId}' is not supported.`);
+  }
+
+  const tokenInfo = chainInfo.tokens.find(t => t.id === tokenId);
+  if (!tokenInfo) {
+    throw new ValidationError(`${type.charAt(0).toUpperCase() + type.slice(1)} token '${tokenId}' is not supported on chain '${chainId}'.`);
+  }
+}
+
+/**
+ * Validates that the amount is within a chain token's swap limits
+ *
+ * @param limits Swap limits from the MesonFi API
+ * @param chainId Meson chain id (e.g., eth)
+ * @param tokenId Token id (e.g., usdc)
+ * @param amount Amount to bridge
+ * @param type 'source' or 'destination', used in messages
+ * @param warn Called when no limits are known for the token
+ */
+export function validateAmount(
+  limits: ChainLimit[],
+  chainId: string,
+  tokenId: string,
+  amount: MesonAmount,
+  type: string = 'destination',
+  warn: (message: string) => void = console.warn
+): void {
+  const chainLimit = limits.find(c => c.id === chainId);
+  if (!chainLimit) {
+    warn(`Warning: Could not find swap limits for ${type} chain '${chainId}'. Proceeding without amount limit check.`);
+    return;
+  }
+
+  const tokenLimit = chainLimit.tokens.find(t => t.id === tokenId);
+  if (!tokenLimit) {
+    warn(`Warning: Could not find swap limits for token '${tokenId}' on chain '${chainId}'. Proceeding without amount limit check.`);
+    return;
+  }
+
+  const minSwap = tokenLimit.min ? MesonAmount.fromRelayer(tokenLimit.min, `Minimum for ${tokenId} on ${chainId}`, 'up') : undefined;
+  const maxSwap = tokenLimit.max ? MesonAmount.fromRelayer(tokenLimit.max, `Maximum for ${tokenId} on ${chainId}`, 'down') : undefined;
+
+  if ((minSwap && amount.cmp(minSwap) < 0) || (maxSwap && amount.cmp(maxSwap) > 0)) {
+    throw new ValidationError(
+      `Amount ${amount} is outside the allowed limits for ${tokenId} on ${chainId} (${minSwap ?? 0} - ${maxSwap ?? 'no maximum'}).`
+    );
+  }
+}
+
+/**
+ * Whether a chain runs the EVM, judged by the address of its Meson contract;
+ * Tron is excluded, its addresses are base58 even where its contract is listed in hex
+ */
+export function isEvmChain(chain: Chain): boolean {
+  return chain.id !== 'tron' && ethers.isAddress(chain.address);
+}
+
+/**
+ * Whether an address is valid on a chain: base58 on Tron, hex on EVM chains.
+ * Other chains have formats of their own, which are left to the relayer.
+ */
+export function isRecipientAddress(chain: Chain, address: string): boolean {
+  if (chain.id === 'tron') {
+    return TRON_ADDRESS_PATTERN.test(address);
+  }
+  return isEvmChain(chain) ? ethers.isAddress(address) : address.trim() !== '';
+}
+
+/**
+ * Validates that a recipient address is valid on the destination chain
+ *
+ * @param chain Destination chain
+ * @param address Recipient address
+ */
+export function validateRecipient(chain: Chain, address: string): void {
+  if (!isRecipientAddress(chain, address)) {
+    throw new ValidationError(`Recipient '${address}' is not a valid address on ${chain.name}.`);
+  }
+}
@@ -0,0 +1,119 @@
+import { MesonBridgeClient, SwapRequest, SwapSummary } from './client';
+import { Chain, ChainLimit } from './types';
+import { MesonAmount } from './amount';
+import { validateAmount, isEvmChain, isRecipientAddress } from './validation';
+import { formatFeePercent } from './fees';
+import { ValidationError } from './errors';
+import { promptChoice, promptValid, promptConfirm } from './prompt';
+
+/**
+ * Asks for the route, amount and recipient of a swap on the terminal
+ *
+ * Only supported combinations are offered: sources are EVM chains that are
+ * not destination-only, since the swap is signed with an EVM key, and
+ * destinations are EVM chains and Tron, the chains whose addresses can be
+ * checked here. Tokens are picked from the chosen chain. The amount is checked
+ * against the swap limits of both tokens as soon as it is entered.
+ *
+ * @param client Client used to fetch chains and limits
+ * @param fromAddress Source address, offered as the default recipient
+ * @returns The swap request
+ */
+export async function promptSwapRequest(client: MesonBridgeClient, fromAddress: string): Promise<SwapRequest> {
+  const chains = (await client.getSupportedChains()).filter(c => c.tokens.length > 0);
+  const limits = await client.getSwapLimits();
+  const sourceChains = chains.filter(c => !c.destinationChainOnly && isEvmChain(c));
+  const destinationChains = chains.filter(c => isEvmChain(c) || c.id === 'tron');
+  if (sourceChains.length === 0) {
+    throw new ValidationError('The Meson API returned no EVM source chains to choose from.');
+  }
+
+  // --- 1. Source ---
+  const sourceChain = await pickChain('Source chain:', sourceChains);
+  const sourceToken = await pickToken(`Token to send from ${sourceChain.name}:`, sourceChain, limits);
+
+  // --- 2. Destination ---
+  const destinationChain = await pickChain('Destination chain:', destinationChains);
+  const destinationToken = await pickToken(`Token to receive on ${destinationChain.name}:`, destinationChain, limits);
+
+  // --- 3. Amount ---
+  const sourceRange = limitRange(limits, sourceChain.id, sourceToken);
+  const destinationRange = limitRange(limits, destinationChain.id, destinationToken);
+  const ranges = [sourceRange, destinationRange].filter(Boolean).join(', then ');
+  const amount = await promptValid(`Amount of ${sourceToken}${ranges ? ` (limits: ${ranges})` : ''}: `, answer => {
+    const parsed = MesonAmount.parse(answer);
+    if (parsed.isZero()) {
+      throw new ValidationError('Amount must be greater than 0.');
+    }
+    validateAmount(limits, sourceChain.id, sourceToken, parsed, 'source', () => undefined);
+    validateAmount(limits, destinationChain.id, destinationToken, parsed, 'destination', () => undefined);
+    return parsed.toString();
+  });
+
+  // --- 4. Recipient ---
+  const recipient = await promptValid(`Recipient on ${destinationChain.name} [${fromAddress}]: `, answer => {
+    const address = answer || fromAddress;
+    if (!isRecipientAddress(destinationChain, address)) {
+      throw new ValidationError(`'${address}' is not a valid address on ${destinationChain.name}.`);
+    }
+    return address;
+  });
+
+  return {
+    from: `${sourceChain.id}:${sourceToken}`,
+    to: `${destinationChain.id}:${destinationToken}`,
+    amount,
+    recipient
+  };
+}
+
+/**
+ * Shows an encoded swap and asks whether to go ahead with it
+ *
+ * @param summary The swap about to be signed or sent
+ * @param question What the user agrees to, e.g. "Sign and submit this swap?"
+ * @returns Whether the user confirmed
+ */
+export function confirmSwap(summary: SwapSummary, question: string): Promise<boolean> {
+  process.stderr.write(`\n${formatSwapSummary(summary)}\n`);
+  return promptConfirm(question);
+}
+
+/**
+ * Formats the amount, fee, net received, recipient and expiry of a swap
+ */
+export function formatSwapSummary(summary: SwapSummary): string {
+  const { fee } = summary;
+  const percent = formatFeePercent(MesonAmount.fromRelayer(fee.totalFee, 'Fee'), MesonAmount.parse(summary.amount));
+  return [
+    'Swap summary:',
+    `  Send:      ${summary.amount} ${summary.from}`,
+    `  Receive:   ${summary.netReceived} ${summary.to}`,
+    `  Fee:       ${fee.totalFee}, ${percent} of the amount (service ${fee.serviceFee}, LP ${fee.lpFee})`,
+    `  From:      ${summary.fromAddress}`,
+    `  Recipient: ${summary.recipient}`,
+    `  Expires:   ${new Date(summary.expireTs * 1000).toISOString()}`
+  ].join('\n');
+}
+
+function pickChain(question: string, chains: Chain[]): Promise<Chain> {
+  return promptChoice(question, chains.map(c => ({ name: c.id, label: `${c.id.padEnd(10)} ${c.name}`, value: c })));
+}
+
+function pickToken(question: string, chain: Chain, limits: ChainLimit[]): Promise<string> {
+  return promptChoice(question, chain.tokens.map(t => {
+    const range = limitRange(limits, chain.id, t.id);
+    return { name: t.id, label: `${t.id.padEnd(10)} ${range ? `limits ${range}` : ''}`.trimEnd(), value: t.id };
+  }));
+}
+
+/**
+ * Describes the swap limits of a token, e.g. `5 - 5000 on eth`
+ */
+function limitRange(limits: ChainLimit[], chainId: string, tokenId: string): string | undefined {
+  const token = limits.find(c => c.id === chainId)?.tokens.find(t => t.id === tokenId);
+  if (!token || (!token.min && !token.max)) {
+    return undefined;
+  }
+  return `${token.min || 0} - ${token.max || 'no maximum'} on ${chainId}`;
+}
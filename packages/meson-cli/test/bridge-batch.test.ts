@@ -0,0 +1,215 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+import { BatchReport } from '../src/batch';
+import { LedgerEntry } from '../src/ledger';
+
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TRON_RECIPIENT = 'TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8';
+
+describe('bridge-batch', function () {
+  const relayer = new MockRelayer(
+    [
+      { id: 'eth', name: 'Ethereum', chainId: '0x1', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc', addr: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' }] },
+      { id: 'bsc', name: 'BNB Chain', chainId: '0x38', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc', addr: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' }] },
+      { id: 'tron', name: 'Tron', chainId: '0x2b6653dc', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc', addr: 'TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8' }] }
+    ],
+    [
+      { id: 'eth', name: 'Ethereum', tokens: [{ id: 'usdc', min: '5', max: '5000' }] },
+      { id: 'bsc', name: 'BNB Chain', tokens: [{ id: 'usdc', min: '1', max: '5000' }] },
+      { id: 'tron', name: 'Tron', tokens: [{ id: 'usdc', min: '1', max: '5000' }] }
+    ]
+  );
+  let apiUrl: string;
+  let tmpDir: string;
+  let manifestFile: string;
+  let reportFile: string;
+  let ledgerFile: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meson-cli-test-'));
+    manifestFile = path.join(tmpDir, 'payouts.csv');
+    reportFile = path.join(tmpDir, 'payouts.report.json');
+    ledgerFile = path.join(tmpDir, 'ledger.json');
+    fs.writeFileSync(manifestFile, `id,from,to,amount,recipient\npayout-1,eth:usdc,bsc:usdc,10,${RECIPIENT}\n`);
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function bridgeBatch(...extra: string[]) {
+    return runCli(
+      ['bridge-batch', '--file', manifestFile, ...extra],
+      { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, MESON_RETRIES: '0', PRIVATE_KEY }
+    );
+  }
+
+  function readReport(): BatchReport {
+    return JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+  }
+
+  function readLedger(): LedgerEntry[] {
+    return fs.existsSync(ledgerFile) ? JSON.parse(fs.readFileSync(ledgerFile, 'utf8')) : [];
+  }
+
+  describe('Manifest validation', function () {
+    it('Should accept a Tron recipient for a payout on Tron', async function () {
+      fs.writeFileSync(manifestFile, `from,to,amount,recipient\neth:usdc,tron:usdc,10,${TRON_RECIPIENT}\n`);
+
+      const { code } = await bridgeBatch('--dry-run');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(readReport().rows[0]).to.include({ status: 'dry-run', recipient: TRON_RECIPIENT });
+      expect(relayer.requestsTo('encode')[0].body.recipient).to.equal(TRON_RECIPIENT);
+    });
+
+    it('Should reject a recipient in the format of another chain before encoding anything', async function () {
+      fs.writeFileSync(manifestFile, `from,to,amount,recipient\neth:usdc,tron:usdc,10,${RECIPIENT}\neth:usdc,bsc:usdc,10,${TRON_RECIPIENT}\n`);
+
+      const { code, json } = await bridgeBatch();
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include(`row 1: Recipient '${RECIPIENT}' is not a valid address on Tron`);
+      expect(json.error.message).to.include(`row 2: Recipient '${TRON_RECIPIENT}' is not a valid address on BNB Chain`);
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+  });
+
+  describe('Resume', function () {
+    it('Should resubmit the signed swap of a pending row the relayer does not report', async function () {
+      relayer.fail('submit', { drop: true });
+      const first = await bridgeBatch();
+      expect(first.code).to.equal(EXIT_CODES.NETWORK);
+      const [pending] = readReport().rows;
+      expect(pending.status).to.equal('pending');
+      expect(readLedger()[0]).to.include({ status: 'SUBMIT_UNCONFIRMED', encoded: pending.encoded });
+
+      relayer.reset();
+      relayer.fail('status', { status: 404, error: { code: -32602, message: 'Swap not found' } });
+      const { code } = await bridgeBatch('--resume');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+      const [submission] = relayer.requestsTo('submit');
+      expect(submission.path).to.equal(`/swap/${pending.encoded}`);
+      expect(submission.body.signature).to.equal(pending.signature);
+      expect(readReport().rows[0]).to.include({ status: 'submitted', encoded: pending.encoded });
+      const [entry] = readLedger();
+      expect(entry).to.include({ status: 'PENDING', encoded: pending.encoded, swapId: readReport().rows[0].swapId });
+      expect(entry.fee).to.deep.equal({ serviceFee: '0.1', lpFee: '0.2', totalFee: '0.3' });
+    });
+
+    it('Should resubmit a pending row from the address that signed it, not the current signer', async function () {
+      relayer.fail('submit', { drop: true });
+      await bridgeBatch();
+      const [pending] = readReport().rows;
+      expect(pending.fromAddress).to.equal(new ethers.Wallet(PRIVATE_KEY).address);
+
+      relayer.reset();
+      relayer.fail('status', { status: 404, error: { code: -32602, message: 'Swap not found' } });
+      const { code } = await bridgeBatch('--resume', '--private-key', ethers.Wallet.createRandom().privateKey);
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      const [submission] = relayer.requestsTo('submit');
+      expect(submission.body).to.include({ fromAddress: pending.fromAddress, signature: pending.signature });
+      expect(readLedger()[0]).to.include({ status: 'PENDING', fromAddress: pending.fromAddress });
+    });
+
+    it('Should keep a row pending when the relayer cannot be asked about it', async function () {
+      relayer.fail('submit', { drop: true });
+      await bridgeBatch();
+      const [pending] = readReport().rows;
+
+      relayer.reset();
+      relayer.fail('status', { drop: true });
+      relayer.fail('submit', { drop: true });
+      const { code } = await bridgeBatch('--resume');
+
+      expect(code).to.equal(EXIT_CODES.NETWORK);
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+      expect(readReport().rows[0]).to.include({ status: 'pending', encoded: pending.encoded, signature: pending.signature });
+    });
+
+    it('Should fail a pending row the relayer rejects on resubmission', async function () {
+      relayer.fail('submit', { drop: true });
+      await bridgeBatch();
+      const [pending] = readReport().rows;
+
+      relayer.reset();
+      relayer.fail('status', { status: 404, error: { code: -32602, message: 'Swap not found' } });
+      relayer.fail('submit', { status: 400, error: { code: -32602, message: 'Swap expired' } });
+      const { code } = await bridgeBatch('--resume');
+
+      expect(code).to.equal(EXIT_CODES.API);
+      expect(relayer.requestsTo('submit')).to.have.length(1);
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+      const [row] = readReport().rows;
+      expect(row).to.include({ status: 'failed', encoded: pending.encoded });
+      expect(row.error).to.include({ name: 'MesonApiError', httpStatus: 400 });
+      expect(readLedger()[0]).to.include({ status: 'SUBMIT_FAILED', encoded: pending.encoded });
+    });
+
+    it('Should keep a pending row pending when the resubmission fails transiently', async function () {
+      relayer.fail('submit', { drop: true });
+      await bridgeBatch();
+
+      relayer.reset();
+      relayer.fail('status', { status: 404, error: { code: -32602, message: 'Swap not found' } });
+      relayer.fail('submit', { status: 503 });
+      await bridgeBatch('--resume');
+
+      expect(readReport().rows[0].status).to.equal('pending');
+      expect(readLedger()[0].status).to.equal('SUBMIT_UNCONFIRMED');
+    });
+
+    it('Should fail a pending row whose swap expired without resubmitting it', async function () {
+      relayer.tamper = fields => ({ ...fields, expireTs: Math.floor(Date.now() / 1000) - 60 });
+      relayer.fail('submit', { drop: true });
+      await bridgeBatch('--no-verify-swap');
+      const [pending] = readReport().rows;
+      expect(pending.status).to.equal('pending');
+
+      relayer.reset();
+      relayer.fail('status', { status: 404, error: { code: -32602, message: 'Swap not found' } });
+      const { code } = await bridgeBatch('--resume');
+
+      expect(code).to.equal(EXIT_CODES.SWAP_EXPIRED);
+      expect(relayer.requestsTo('submit')).to.have.length(0);
+      const [row] = readReport().rows;
+      expect(row).to.include({ status: 'failed', encoded: pending.encoded });
+      expect(row.error).to.include({ name: 'SwapExpiredError' });
+      expect(readLedger()[0]).to.include({ status: 'SUBMIT_FAILED', encoded: pending.encoded });
+    });
+
+    it('Should encode a failed row again on the next resume', async function () {
+      relayer.fail('submit', { status: 400, error: { code: -32602, message: 'Swap expired' } });
+      await bridgeBatch();
+      const [failed] = readReport().rows;
+      expect(failed.status).to.equal('failed');
+
+      relayer.reset();
+      const { code } = await bridgeBatch('--resume');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(relayer.requestsTo('encode')).to.have.length(1);
+      expect(readReport().rows[0].status).to.equal('submitted');
+      expect(readReport().rows[0].encoded).to.not.equal(failed.encoded);
+    });
+  });
+});
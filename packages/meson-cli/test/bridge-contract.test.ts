@@ -0,0 +1,537 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { compileContracts, startLocalChain, startRpcProxy, deployMock, LocalChain, COMPILE_TIMEOUT_MS, DEPLOYER_KEY, USER_KEY, NATIVE_TOKEN_ADDRESS } from './helpers/local-chain';
+import { EXIT_CODES } from '../src/errors';
+import { LedgerEntry } from '../src/ledger';
+import { RegistryEntry } from '../src/registry';
+import { MesonContractService, predictTransferToMesonAddress } from '../src/contract';
+
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const USDC_INDEX = 1;
+const NATIVE_INDEX = 0x34;
+
+describe('bridge-contract', function () {
+  let chain: LocalChain;
+  let meson: ethers.Contract;
+  let usdc: ethers.Contract;
+  let user: ethers.Wallet;
+  let relayer: MockRelayer;
+  let apiUrl: string;
+  let tmpDir: string;
+  let ledgerFile: string;
+  let registryFile: string;
+
+  // TransferToMeson contract deployed by the deploy-if-missing test, reused by later tests
+  let transferContract: string;
+
+  before(async function () {
+    this.timeout(COMPILE_TIMEOUT_MS + 60000);
+    const unavailable = await compileContracts();
+    if (unavailable) {
+      console.warn(`    Skipping the bridge-contract tests: ${unavailable}.`);
+      this.skip();
+    }
+
+    chain = await startLocalChain();
+    const deployer = new ethers.NonceManager(new ethers.Wallet(DEPLOYER_KEY, chain.provider));
+    user = new ethers.Wallet(USER_KEY, chain.provider);
+
+    meson = await deployMock('MockMeson', deployer);
+    usdc = await deployMock('MockERC20', deployer, 'USD Coin', 'USDC', 6);
+    await (await meson.setTokenForIndex(USDC_INDEX, await usdc.getAddress())).wait();
+    await (await meson.setTokenForIndex(NATIVE_INDEX, NATIVE_TOKEN_ADDRESS)).wait();
+    await (await usdc.mint(user.address, ethers.parseUnits('1000', 6))).wait();
+
+    relayer = new MockRelayer(
+      [
+        {
+          id: 'eth',
+          name: 'Ethereum',
+          chainId: '0x7a69',
+          address: await meson.getAddress(),
+          tokens: [{ id: 'usdc', addr: await usdc.getAddress() }, { id: 'eth', addr: NATIVE_TOKEN_ADDRESS }]
+        },
+        { id: 'bsc', name: 'BNB Chain', chainId: '0x38', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc' }] }
+      ],
+      [
+        { id: 'eth', name: 'Ethereum', tokens: [{ id: 'usdc', min: '1', max: '5000' }, { id: 'eth', min: '0.01', max: '10' }] },
+        { id: 'bsc', name: 'BNB Chain', tokens: [{ id: 'usdc', min: '1', max: '5000' }] }
+      ]
+    );
+    relayer.tokenIndexes = { eth: NATIVE_INDEX };
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer?.stop();
+    await chain?.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meson-cli-test-'));
+    ledgerFile = path.join(tmpDir, 'ledger.json');
+    registryFile = path.join(tmpDir, 'contracts.json');
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function cli(args: string[]) {
+    return runCli(args, { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, MESON_REGISTRY: registryFile, MESON_RETRIES: '0', PRIVATE_KEY: USER_KEY });
+  }
+
+  function bridgeContract(from: string, amount: string, ...extra: string[]) {
+    return cli(['bridge-contract', '--from', from, '--to', 'bsc:usdc', '--amount', amount, '--recipient', RECIPIENT, '--rpc-url', chain.rpcUrl, ...extra]);
+  }
+
+  function readLedger(): LedgerEntry[] {
+    return fs.existsSync(ledgerFile) ? JSON.parse(fs.readFileSync(ledgerFile, 'utf8')) : [];
+  }
+
+  function readRegistry(): RegistryEntry[] {
+    return fs.existsSync(registryFile) ? JSON.parse(fs.readFileSync(registryFile, 'utf8')) : [];
+  }
+
+  describe('Dry run', function () {
+    it('Should resolve the swap token without sending transactions', async function () {
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--deploy-if-missing', '--dry-run');
+
+      expect(code).to.equal(0);
+      expect(json).to.include({ ok: true, dryRun: true, mesonContract: await meson.getAddress() });
+      expect(json.token).to.include({ native: true, decimals: 18, amount: '2.0' });
+      expect(json.transferContract).to.equal(undefined);
+      expect(json.simulated).to.equal(false);
+      expect(await chain.provider.getCode(predictTransferToMesonAddress(user.address, await meson.getAddress()))).to.equal('0x');
+      expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+      expect(relayer.requestsTo('submit-contract')).to.have.length(0);
+    });
+  });
+
+  describe('Native tokens', function () {
+    it('Should deploy a TransferToMeson contract and post the swap', async function () {
+      const { code, json } = await bridgeContract('eth:eth', '2', '--deploy-if-missing');
+
+      expect(code).to.equal(0);
+      expect(json.transferContract).to.equal(predictTransferToMesonAddress(user.address, await meson.getAddress()));
+      transferContract = json.transferContract;
+
+      const posted = await meson.postedSwaps(Number(await meson.postedSwapCount()) - 1);
+      expect(ethers.toBeHex(posted.encodedSwap, 32)).to.equal(json.encoded);
+      expect(posted.value).to.equal(ethers.parseEther('2'));
+      expect(posted.fromContract).to.equal(transferContract);
+      expect(posted.postingValue >> BigInt(40)).to.equal(BigInt(user.address));
+
+      const [submission] = relayer.requestsTo('submit-contract');
+      expect(submission.path).to.equal(`/swap/from-contract/${json.encoded}`);
+      expect(submission.body).to.deep.equal({ hash: json.txHash });
+
+      const [entry] = readLedger();
+      expect(entry).to.include({ command: 'bridge-contract', txHash: json.txHash, swapId: json.swapId, transferContract });
+
+      const [registered] = readRegistry();
+      expect(registered).to.include({ chain: 'eth', chainId: '31337', owner: user.address, address: transferContract });
+    });
+
+    it('Should reuse the registered contract without --transfer-contract', async function () {
+      fs.writeFileSync(registryFile, JSON.stringify([{
+        chain: 'eth',
+        chainId: '31337',
+        owner: user.address,
+        mesonContract: await meson.getAddress(),
+        address: transferContract,
+        salt: ethers.ZeroHash,
+        deployedAt: new Date().toISOString()
+      }]));
+
+      const { code, json } = await bridgeContract('eth:eth', '2');
+
+      expect(code).to.equal(0);
+      expect(json.transferContract).to.equal(transferContract);
+    });
+
+    it('Should simulate the transferToMeson call in a dry run', async function () {
+      const count = await meson.postedSwapCount();
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--transfer-contract', transferContract, '--dry-run');
+
+      expect(code).to.equal(0);
+      expect(json.simulated).to.equal(true);
+      expect(await meson.postedSwapCount()).to.equal(count);
+    });
+  });
+
+  describe('contracts', function () {
+    it('Should find an already deployed contract instead of deploying again', async function () {
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      const { code, json } = await cli(['contracts', 'deploy', '--chain', 'eth', '--rpc-url', chain.rpcUrl]);
+
+      expect(code).to.equal(0);
+      expect(json).to.include({ address: transferContract, reused: true, chainId: '31337' });
+      expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+      expect(readRegistry()).to.have.length(1);
+    });
+
+    it('Should flag recorded addresses that do not hold the TransferToMeson code', async function () {
+      fs.writeFileSync(registryFile, JSON.stringify([
+        { chain: 'eth', chainId: '31337', owner: user.address, mesonContract: await meson.getAddress(), address: transferContract, salt: ethers.ZeroHash, deployedAt: '' },
+        { chain: 'eth', chainId: '31337', owner: RECIPIENT, mesonContract: await meson.getAddress(), address: await usdc.getAddress(), salt: ethers.ZeroHash, deployedAt: '' },
+        { chain: 'bsc', chainId: '56', owner: user.address, mesonContract: await meson.getAddress(), address: transferContract, salt: ethers.ZeroHash, deployedAt: '' }
+      ]));
+
+      const { code, json } = await cli(['contracts', 'verify', '--rpc-url', chain.rpcUrl]);
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.verified).to.equal(false);
+      expect(json.contracts.map((c: { status: string }) => c.status)).to.deep.equal(['ok', 'mismatch']);
+    });
+  });
+
+  describe('ERC20 tokens', function () {
+    it('Should refuse to call the contract without an allowance', async function () {
+      const count = await meson.postedSwapCount();
+
+      const { code, json } = await bridgeContract('eth:usdc', '10', '--transfer-contract', transferContract);
+
+      expect(code).to.equal(EXIT_CODES.INSUFFICIENT_FUNDS);
+      expect(json.error.message).to.include('--approve');
+      expect(await meson.postedSwapCount()).to.equal(count);
+    });
+
+    it('Should approve and transfer the tokens with --approve', async function () {
+      const balance = await usdc.balanceOf(user.address);
+
+      const { code, json } = await bridgeContract('eth:usdc', '10', '--transfer-contract', transferContract, '--approve');
+
+      expect(code).to.equal(0);
+      expect(json.approveTxHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(json.token).to.include({ native: false, symbol: 'USDC', amount: '10.0' });
+      expect(await usdc.balanceOf(user.address)).to.equal(balance - ethers.parseUnits('10', 6));
+      expect(await usdc.balanceOf(await meson.getAddress())).to.equal(ethers.parseUnits('10', 6));
+    });
+
+    it('Should deploy, approve and transfer for a wallet without a contract', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      await (await user.sendTransaction({ to: wallet.address, value: ethers.parseEther('1') })).wait();
+      await (await usdc.mint(wallet.address, ethers.parseUnits('10', 6))).wait();
+
+      const { code, json } = await bridgeContract('eth:usdc', '10', '--deploy-if-missing', '--approve', '--private-key', wallet.privateKey);
+
+      expect(code).to.equal(0);
+      expect(json.transferContract).to.equal(predictTransferToMesonAddress(wallet.address, await meson.getAddress()));
+      expect(json.approveTxHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(await usdc.balanceOf(wallet.address)).to.equal(BigInt(0));
+
+      const posted = await meson.postedSwaps(Number(await meson.postedSwapCount()) - 1);
+      expect(posted.fromContract).to.equal(json.transferContract);
+      expect(posted.pulled).to.equal(ethers.parseUnits('10', 6));
+    });
+
+    it('Should refuse a missing allowance before deploying the contract', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      await (await user.sendTransaction({ to: wallet.address, value: ethers.parseEther('1') })).wait();
+      await (await usdc.mint(wallet.address, ethers.parseUnits('10', 6))).wait();
+      const planned = predictTransferToMesonAddress(wallet.address, await meson.getAddress());
+
+      const { code, json } = await bridgeContract('eth:usdc', '10', '--deploy-if-missing', '--private-key', wallet.privateKey);
+
+      expect(code).to.equal(EXIT_CODES.INSUFFICIENT_FUNDS);
+      expect(json.error.message).to.include(`TransferToMeson contract ${planned} is not approved`);
+      expect(await chain.provider.getCode(planned)).to.equal('0x');
+      expect(await chain.provider.getTransactionCount(wallet.address)).to.equal(0);
+    });
+
+    it('Should require a TransferToMeson contract unless asked to deploy one', async function () {
+      const { code, json } = await bridgeContract('eth:usdc', '10');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include(`No TransferToMeson contract is registered for ${user.address} on eth`);
+      expect(json.error.message).to.include('--deploy-if-missing');
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+  });
+
+  describe('Remote signer', function () {
+    it('Should send the transaction through the remote endpoint', async function () {
+      const count = await meson.postedSwapCount();
+
+      // The Hardhat node holds the user's account unlocked, so it acts as the remote signer
+      const { code, json } = await bridgeContract(
+        'eth:eth', '2', '--transfer-contract', transferContract, '--signer', `remote:${chain.rpcUrl}`, '--signer-address', user.address
+      );
+
+      expect(code).to.equal(0);
+      expect(json.fromAddress).to.equal(user.address);
+      expect(await meson.postedSwapCount()).to.equal(count + BigInt(1));
+    });
+  });
+
+  describe('Gas settings', function () {
+    it('Should send a legacy transaction with the given gas price and multiplier', async function () {
+      const { code, json } = await bridgeContract(
+        'eth:eth', '2', '--transfer-contract', transferContract, '--legacy-gas-price', '3', '--gas-limit-multiplier', '1.5'
+      );
+
+      expect(code).to.equal(0);
+      const tx = (await chain.provider.getTransaction(json.txHash))!;
+      const receipt = (await chain.provider.getTransactionReceipt(json.txHash))!;
+      expect(tx.type).to.equal(0);
+      expect(tx.gasPrice).to.equal(ethers.parseUnits('3', 'gwei'));
+      expect(tx.gasLimit > receipt.gasUsed * BigInt(14) / BigInt(10)).to.equal(true);
+    });
+
+    it('Should abort when the estimated fee is above --max-gas-cost', async function () {
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--transfer-contract', transferContract, '--max-gas-cost', '0.000001');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('above --max-gas-cost 0.000001');
+      expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+      expect(readLedger()).to.have.length(0);
+    });
+
+    it('Should apply --max-gas-cost to the fees of all the transactions before sending any', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      await (await user.sendTransaction({ to: wallet.address, value: ethers.parseEther('1') })).wait();
+      await (await usdc.mint(wallet.address, ethers.parseUnits('10', 6))).wait();
+      const planned = predictTransferToMesonAddress(wallet.address, await meson.getAddress());
+
+      // A cap above the deployment and the approval each, but below both together
+      const service = new MesonContractService(chain.rpcUrl, false, { gasPrice: ethers.parseUnits('1', 'gwei') });
+      const deployment = await service.estimateDeploymentCost(await meson.getAddress(), wallet.address);
+      const approval = await service.estimateApprovalCost(await usdc.getAddress(), planned, ethers.parseUnits('10', 6), wallet.address);
+      const cap = deployment.cost + approval.cost / BigInt(2);
+
+      const { code, json } = await bridgeContract(
+        'eth:usdc', '10', '--deploy-if-missing', '--approve', '--private-key', wallet.privateKey,
+        '--legacy-gas-price', '1', '--max-gas-cost', ethers.formatEther(cap)
+      );
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include(`is ${ethers.formatEther(deployment.cost + approval.cost)}, above --max-gas-cost ${ethers.formatEther(cap)}`);
+      expect(json.error.message).to.include('Nothing was sent');
+      expect(await chain.provider.getTransactionCount(wallet.address)).to.equal(0);
+    });
+
+    it('Should reject EIP-1559 options on a chain without EIP-1559 fee data', async function () {
+      // Blocks without a base fee, as on a chain before London
+      const proxy = await startRpcProxy(chain.rpcUrl, async (request, forward) => {
+        if (request.method !== 'eth_getBlockByNumber') {
+          return undefined;
+        }
+        const response = await forward();
+        delete (response.result as { baseFeePerGas?: string } | null)?.baseFeePerGas;
+        return response;
+      });
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      try {
+        const { code, json } = await bridgeContract(
+          'eth:eth', '2', '--transfer-contract', transferContract, '--max-fee-per-gas', '3', '--rpc-url', proxy.url
+        );
+
+        expect(code).to.equal(EXIT_CODES.VALIDATION);
+        expect(json.error.message).to.include('no EIP-1559 fee data');
+        expect(json.error.message).to.include('--legacy-gas-price');
+        expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+      } finally {
+        await proxy.stop();
+      }
+    });
+  });
+
+  describe('Fee limits', function () {
+    it('Should abort before deploying when the fee is above --max-fee-percent', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      await (await user.sendTransaction({ to: wallet.address, value: ethers.parseEther('2') })).wait();
+
+      const { code, json } = await bridgeContract(
+        'eth:eth', '1', '--deploy-if-missing', '--max-fee-percent', '25', '--private-key', wallet.privateKey
+      );
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('Total fee 0.3 is 30% of 1, above --max-fee-percent 25%');
+      expect(await chain.provider.getCode(predictTransferToMesonAddress(wallet.address, await meson.getAddress()))).to.equal('0x');
+      expect(await chain.provider.getTransactionCount(wallet.address)).to.equal(0);
+      expect(readRegistry()).to.have.length(0);
+    });
+  });
+
+  describe('Balance checks', function () {
+    it('Should stop the signed bridge before encoding when the token balance is short', async function () {
+      const { code, json } = await cli([
+        'bridge', '--from', 'eth:usdc', '--to', 'bsc:usdc', '--amount', '4000', '--recipient', RECIPIENT, '--rpc-url', chain.rpcUrl
+      ]);
+
+      expect(code).to.equal(EXIT_CODES.INSUFFICIENT_FUNDS);
+      expect(json.error.message).to.match(/Insufficient USDC balance on eth: [\d.]+ held, 4000\.0 required, short by/);
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should require the native balance to cover the value and the gas', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      await (await user.sendTransaction({ to: wallet.address, value: ethers.parseEther('2') })).wait();
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--transfer-contract', transferContract, '--private-key', wallet.privateKey);
+
+      expect(code).to.equal(EXIT_CODES.INSUFFICIENT_FUNDS);
+      expect(json.error.message).to.include('Insufficient native balance on eth for the swap and gas: 2.0 held');
+      expect(json.error.message).to.include('2.0 swap value + ');
+      expect(await chain.provider.getTransactionCount(wallet.address)).to.equal(0);
+    });
+
+    it('Should count the gas of deploying the contract before deploying it', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      await (await user.sendTransaction({ to: wallet.address, value: ethers.parseEther('2') })).wait();
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--deploy-if-missing', '--private-key', wallet.privateKey);
+
+      expect(code).to.equal(EXIT_CODES.INSUFFICIENT_FUNDS);
+      expect(json.error.message).to.include('Insufficient native balance on eth for the swap and gas: 2.0 held');
+      expect(json.error.message).to.not.include('+ 0.0 gas');
+      expect(await chain.provider.getCode(predictTransferToMesonAddress(wallet.address, await meson.getAddress()))).to.equal('0x');
+      expect(await chain.provider.getTransactionCount(wallet.address)).to.equal(0);
+    });
+  });
+
+  describe('Token checks', function () {
+    it('Should refuse a token listed at an address that is not an EVM address', async function () {
+      const token = relayer.chains[0].tokens[0];
+      const listed = token.addr;
+      token.addr = 'TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8';
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      try {
+        const { code, json } = await bridgeContract('eth:usdc', '10', '--transfer-contract', transferContract);
+
+        expect(code).to.equal(EXIT_CODES.VALIDATION);
+        expect(json.error.message).to.include('but eth:usdc is TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8');
+        expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+      } finally {
+        token.addr = listed;
+      }
+    });
+
+    it('Should refuse a token mismatch before deploying the contract', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      await (await user.sendTransaction({ to: wallet.address, value: ethers.parseEther('1') })).wait();
+      const other = await deployMock('MockERC20', user, 'Tether USD', 'USDT', 6);
+      await (await other.mint(wallet.address, ethers.parseUnits('10', 6))).wait();
+      const token = relayer.chains[0].tokens[0];
+      const listed = token.addr;
+      token.addr = await other.getAddress();
+
+      try {
+        const { code, json } = await bridgeContract('eth:usdc', '10', '--deploy-if-missing', '--approve', '--private-key', wallet.privateKey);
+
+        expect(code).to.equal(EXIT_CODES.VALIDATION);
+        expect(json.error.message).to.include(`but eth:usdc is ${token.addr}`);
+        expect(await chain.provider.getCode(predictTransferToMesonAddress(wallet.address, await meson.getAddress()))).to.equal('0x');
+        expect(await chain.provider.getTransactionCount(wallet.address)).to.equal(0);
+      } finally {
+        token.addr = listed;
+      }
+    });
+  });
+
+  describe('Network checks', function () {
+    it('Should refuse an RPC endpoint on another chain', async function () {
+      relayer.chains[0].chainId = '0x1';
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      try {
+        const { code, json } = await bridgeContract('eth:eth', '2', '--deploy-if-missing');
+
+        expect(code).to.equal(EXIT_CODES.VALIDATION);
+        expect(json.error.message).to.include('on chain ID 31337, but eth is chain ID 1');
+        expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+      } finally {
+        relayer.chains[0].chainId = '0x7a69';
+      }
+    });
+
+    it('Should refuse a remote signer on another chain', async function () {
+      // Forwards to the local node but reports Ethereum mainnet as its chain
+      const proxy = await startRpcProxy(chain.rpcUrl, async request =>
+        request.method === 'eth_chainId' ? { jsonrpc: '2.0', id: request.id, result: '0x1' } : undefined
+      );
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      try {
+        const { code, json } = await bridgeContract(
+          'eth:eth', '2', '--transfer-contract', transferContract, '--signer', `remote:${proxy.url}`, '--signer-address', user.address
+        );
+
+        expect(code).to.equal(EXIT_CODES.VALIDATION);
+        expect(json.error.message).to.include('remote signer is on chain ID 1, but eth is chain ID 31337');
+        expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+        expect(relayer.requestsTo('encode')).to.have.length(0);
+      } finally {
+        await proxy.stop();
+      }
+    });
+
+    it('Should refuse a Meson address without code', async function () {
+      const { code, json } = await bridgeContract('eth:eth', '2', '--transfer-contract', transferContract, '--meson-contract', RECIPIENT);
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include(`no contract at the Meson address ${RECIPIENT}`);
+    });
+  });
+
+  describe('Transaction failures', function () {
+    afterEach(async function () {
+      await (await meson.connect(user).getFunction('setRejectReason')('')).wait();
+    });
+
+    it('Should report the revert reason when Meson rejects the swap', async function () {
+      await (await meson.connect(user).getFunction('setRejectReason')('Swap rejected')).wait();
+
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--transfer-contract', transferContract);
+
+      expect(code).to.equal(EXIT_CODES.CONTRACT_REVERT);
+      expect(json.error).to.include({ name: 'ContractRevertError', reason: 'Swap rejected' });
+      expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+      expect(relayer.requestsTo('submit-contract')).to.have.length(0);
+      expect(readLedger()).to.have.length(0);
+    });
+
+    it('Should report the revert reason of the simulation in a dry run', async function () {
+      await (await meson.connect(user).getFunction('setRejectReason')('Swap rejected')).wait();
+      const nonce = await chain.provider.getTransactionCount(user.address);
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--transfer-contract', transferContract, '--dry-run');
+
+      expect(code).to.equal(EXIT_CODES.CONTRACT_REVERT);
+      expect(json.error.message).to.include('transferToMeson simulation reverted: Swap rejected');
+      expect(await chain.provider.getTransactionCount(user.address)).to.equal(nonce);
+    });
+
+    it('Should keep the mined transaction in the ledger if the relayer is not notified', async function () {
+      relayer.fail('submit-contract', { status: 400, error: { code: -32603, message: 'Transaction not found' } });
+      const count = await meson.postedSwapCount();
+
+      const { code, json } = await bridgeContract('eth:eth', '2', '--transfer-contract', transferContract);
+
+      expect(code).to.equal(EXIT_CODES.API);
+      expect(json.error.message).to.include('Transaction not found');
+      expect(await meson.postedSwapCount()).to.equal(count + BigInt(1));
+
+      const [entry] = readLedger();
+      expect(entry.txHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(entry.swapId).to.equal(undefined);
+    });
+  });
+});
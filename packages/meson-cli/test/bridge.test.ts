@@ -0,0 +1,325 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+import { LedgerEntry } from '../src/ledger';
+
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const FROM_ADDRESS = new ethers.Wallet(PRIVATE_KEY).address;
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+// REQUEST_TYPE_HASH of the Meson contracts
+const REQUEST_TYPE_HASH = '0x9862d877599564bcd97c37305a7b0fdbe621d9c2a125026f2ad601f754a75abc';
+
+describe('bridge', function () {
+  const relayer = new MockRelayer(
+    [
+      { id: 'eth', name: 'Ethereum', chainId: '0x1', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc', addr: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' }] },
+      { id: 'bsc', name: 'BNB Chain', chainId: '0x38', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc', addr: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' }] }
+    ],
+    [
+      { id: 'eth', name: 'Ethereum', tokens: [{ id: 'usdc', min: '5', max: '5000' }] },
+      { id: 'bsc', name: 'BNB Chain', tokens: [{ id: 'usdc', min: '1', max: '5000' }] }
+    ]
+  );
+  let apiUrl: string;
+  let tmpDir: string;
+  let ledgerFile: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meson-cli-test-'));
+    ledgerFile = path.join(tmpDir, 'ledger.json');
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function bridge(...extra: string[]) {
+    return runCli(
+      ['bridge', '--from', 'eth:usdc', '--to', 'bsc:usdc', '--amount', '10', '--recipient', RECIPIENT, ...extra],
+      { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, MESON_RETRIES: '0', PRIVATE_KEY }
+    );
+  }
+
+  function readLedger(): LedgerEntry[] {
+    return fs.existsSync(ledgerFile) ? JSON.parse(fs.readFileSync(ledgerFile, 'utf8')) : [];
+  }
+
+  describe('Dry run', function () {
+    it('Should encode and sign without submitting', async function () {
+      const { code, json } = await bridge('--dry-run');
+
+      expect(code).to.equal(0);
+      expect(json.ok).to.equal(true);
+      expect(json.dryRun).to.equal(true);
+      expect(json.fromAddress).to.equal(FROM_ADDRESS);
+      expect(json.signature).to.match(/^0x[0-9a-f]{130}$/);
+      expect(json.fee.totalFee).to.equal('0.3');
+      expect(json.netReceived).to.equal('9.7');
+      expect(relayer.requestsTo('encode')).to.have.length(1);
+      expect(relayer.requestsTo('submit')).to.have.length(0);
+      expect(readLedger()).to.have.length(0);
+    });
+  });
+
+  describe('Submission', function () {
+    it('Should submit the signed swap and record it in the ledger', async function () {
+      const { code, json } = await bridge();
+
+      expect(code).to.equal(0);
+      const [submission] = relayer.requestsTo('submit');
+      expect(submission.path).to.equal(`/swap/${json.encoded}`);
+      expect(submission.body).to.deep.equal({ fromAddress: FROM_ADDRESS, recipient: RECIPIENT, signature: json.signature });
+      expect(json.swapId).to.equal(ethers.keccak256(json.encoded));
+
+      const [entry] = readLedger();
+      expect(entry).to.include({ command: 'bridge', encoded: json.encoded, swapId: json.swapId, status: 'PENDING' });
+    });
+  });
+
+  describe('Validations', function () {
+    it('Should reject a malformed private key without echoing it', async function () {
+      const { code, json, stderr } = await bridge('--private-key', '0x1234secret');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('Invalid private key');
+      expect(JSON.stringify(json) + stderr).to.not.include('1234secret');
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should reject an unsupported chain before encoding', async function () {
+      const { code, json } = await runCli(
+        ['bridge', '--from', 'eth:usdc', '--to', 'tron:usdc', '--amount', '10', '--recipient', RECIPIENT],
+        { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, PRIVATE_KEY }
+      );
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include("chain 'tron' is not supported");
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should not use the mainnet RPC defaults on testnet', async function () {
+      const { code, json } = await runCli(
+        ['--network', 'testnet', 'bridge-contract', '--from', 'eth:usdc', '--to', 'bsc:usdc', '--amount', '10', '--recipient', RECIPIENT],
+        { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, PRIVATE_KEY }
+      );
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include("No default RPC URL for chain 'eth' on testnet");
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should reject an amount outside the swap limits', async function () {
+      const { code, json } = await bridge('--amount', '6000');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('outside the allowed limits');
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should check the limits of the source token as well', async function () {
+      const { code, json } = await bridge('--amount', '3');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('Amount 3 is outside the allowed limits for usdc on eth (5 - 5000)');
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should reject an amount finer than the 6 decimals Meson encodes', async function () {
+      const { code, json } = await bridge('--amount', '10.0000001');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('more than 6 decimals');
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should refuse to sign a swap that does not match the request', async function () {
+      relayer.tamper = fields => ({ ...fields, amount: fields.amount * BigInt(2) });
+
+      const { code, json } = await bridge();
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('Refusing to sign');
+      expect(relayer.requestsTo('submit')).to.have.length(0);
+    });
+
+    it('Should refuse to sign when the hash to sign is not the one for the swap', async function () {
+      relayer.signingHash = (encoded, recipient) =>
+        ethers.keccak256(ethers.concat([REQUEST_TYPE_HASH, ethers.keccak256(ethers.concat([encoded, recipient]))]));
+
+      const { code, json } = await bridge();
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('does not match the locally computed request hash');
+      expect(json.error.message).to.include('Refusing to sign');
+      expect(relayer.requestsTo('submit')).to.have.length(0);
+      expect(readLedger()).to.have.length(0);
+    });
+
+    it('Should refuse to sign a swap to a token without a known Meson index', async function () {
+      const { chains, limits } = relayer;
+      relayer.chains = [chains[0], { ...chains[1], tokens: [...chains[1].tokens, { id: 'dai', addr: '0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3' }] }];
+      relayer.limits = [limits[0], { ...limits[1], tokens: [...limits[1].tokens, { id: 'dai', min: '1', max: '5000' }] }];
+      relayer.tokenIndexes = { dai: 0x13 };
+
+      try {
+        const { code, json } = await runCli(
+          ['bridge', '--from', 'eth:usdc', '--to', 'bsc:dai', '--amount', '10', '--recipient', RECIPIENT],
+          { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, MESON_RETRIES: '0', PRIVATE_KEY }
+        );
+
+        expect(code).to.equal(EXIT_CODES.VALIDATION);
+        expect(json.error.message).to.include('No known Meson token index to check outToken 0x13 for dai');
+        expect(json.error.message).to.include('--no-verify-swap');
+        expect(relayer.requestsTo('submit')).to.have.length(0);
+      } finally {
+        relayer.chains = chains;
+        relayer.limits = limits;
+        relayer.tokenIndexes = {};
+      }
+    });
+  });
+
+  describe('Fee limits', function () {
+    it('Should refuse to sign when the fee is above --max-fee', async function () {
+      const { code, json } = await bridge('--max-fee', '0.2');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('Total fee 0.3 is above --max-fee 0.2');
+      expect(relayer.requestsTo('submit')).to.have.length(0);
+      expect(readLedger()).to.have.length(0);
+    });
+
+    it('Should submit when the fee is within the limits', async function () {
+      const { code, json } = await bridge('--max-fee', '0.3', '--max-fee-percent', '3');
+
+      expect(code).to.equal(0);
+      expect(json).to.include({ ok: true, netReceived: '9.7' });
+      expect(relayer.requestsTo('submit')).to.have.length(1);
+    });
+  });
+
+  describe('Interactive mode', function () {
+    it('Should refuse to prompt without a terminal', async function () {
+      const { code, json } = await runCli(['bridge', '-i'], { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, PRIVATE_KEY });
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('Interactive mode needs a terminal');
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should require the route options when not prompting', async function () {
+      const { code, json } = await runCli(['bridge', '--from', 'eth:usdc'], { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, PRIVATE_KEY });
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include("'--to <chain:token>', '--amount <value>', '--recipient <address>' not specified");
+    });
+  });
+
+  describe('Relayer errors', function () {
+    it('Should report the error payload of a failed encoding', async function () {
+      relayer.fail('encode', { status: 400, error: { code: -32602, message: 'Amount too small', data: { code: 'INVALID_AMOUNT' } } });
+
+      const { code, json } = await bridge();
+
+      expect(code).to.equal(EXIT_CODES.API);
+      expect(json.error).to.include({ name: 'MesonApiError', code: -32602, dataCode: 'INVALID_AMOUNT', httpStatus: 400 });
+      expect(json.error.message).to.include('Amount too small');
+    });
+
+    it('Should record a swap the relayer rejected as not submitted', async function () {
+      relayer.fail('submit', { status: 400, error: { code: -32603, message: 'Invalid signature' } });
+
+      const { code, json } = await bridge();
+
+      expect(code).to.equal(EXIT_CODES.API);
+      expect(json.error.message).to.include('Invalid signature');
+      const [entry] = readLedger();
+      expect(entry).to.include({ command: 'bridge', status: 'SUBMIT_FAILED', encoded: relayer.requestsTo('submit')[0].path.slice('/swap/'.length) });
+      expect(entry.error).to.include('Invalid signature');
+    });
+
+    it('Should exit with the network code when the relayer drops the connection', async function () {
+      relayer.fail('submit', { drop: true });
+
+      const { code, json } = await bridge();
+
+      expect(code).to.equal(EXIT_CODES.NETWORK);
+      expect(json.error.name).to.equal('NetworkError');
+      expect(readLedger()[0]).to.include({ command: 'bridge', status: 'SUBMIT_UNCONFIRMED' });
+    });
+
+    it('Should send a submission only once by default', async function () {
+      relayer.fail('submit', { status: 502, times: 1 });
+
+      const { code, json } = await runCli(
+        ['bridge', '--from', 'eth:usdc', '--to', 'bsc:usdc', '--amount', '10', '--recipient', RECIPIENT],
+        { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, MESON_RETRIES: '2', PRIVATE_KEY }
+      );
+
+      expect(code).to.equal(EXIT_CODES.API);
+      expect(json.error.httpStatus).to.equal(502);
+      expect(relayer.requestsTo('submit')).to.have.length(1);
+    });
+
+    it('Should retry a submission with --retry-submit', async function () {
+      relayer.fail('submit', { status: 502, times: 1 });
+
+      const { code, json } = await runCli(
+        ['--retry-submit', 'bridge', '--from', 'eth:usdc', '--to', 'bsc:usdc', '--amount', '10', '--recipient', RECIPIENT],
+        { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, MESON_RETRIES: '2', PRIVATE_KEY }
+      );
+
+      expect(code).to.equal(0);
+      const submissions = relayer.requestsTo('submit');
+      expect(submissions).to.have.length(2);
+      expect(submissions[1].body).to.deep.equal(submissions[0].body);
+      expect(readLedger()[0]).to.include({ status: 'PENDING', swapId: json.swapId });
+    });
+
+    it('Should accept limits in exponent form and fees finer than 6 decimals', async function () {
+      const limits = relayer.limits;
+      relayer.limits = [
+        { id: 'eth', name: 'Ethereum', tokens: [{ id: 'usdc', min: '5e0', max: '5e3' }] },
+        { id: 'bsc', name: 'BNB Chain', tokens: [{ id: 'usdc', min: '1e-7', max: '5000.0000001' }] }
+      ];
+      relayer.fee = { serviceFee: '0.1', lpFee: '0.2000001', totalFee: '0.3000001' };
+
+      try {
+        const { code, json } = await bridge('--dry-run');
+
+        expect(code).to.equal(0);
+        expect(json.netReceived).to.equal('9.699999');
+      } finally {
+        relayer.limits = limits;
+      }
+    });
+
+    it('Should blame the relayer for a limit that is not a number', async function () {
+      const limits = relayer.limits;
+      relayer.limits = [{ id: 'eth', name: 'Ethereum', tokens: [{ id: 'usdc', min: 'five', max: '5000' }] }, limits[1]];
+
+      try {
+        const { code, json } = await bridge('--dry-run');
+
+        expect(code).to.equal(EXIT_CODES.API);
+        expect(json.error.message).to.include("invalid minimum for usdc on eth: 'five'");
+      } finally {
+        relayer.limits = limits;
+      }
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+import { CHAIN_CODES, TOKEN_INDEXES, decodeEncodedSwap, verifyEncodedSwap } from '../src/encoded-swap';
+
+// Swap of 500 USDC from BNB Chain to Aptos, with its fields split by hand
+// (also used by the status tests): 01 | 001dcd6500 | c00000000000f677815c |
+// 0000000000 | 00634dcb98 | 027d | 01 | 02ca | 21
+const BSC_TO_APTOS_SWAP = '0x01001dcd6500c00000000000f677815c000000000000634dcb98027d0102ca21';
+
+// Swap of 12345.678901 USDC on Arbitrum to USDT on Ethereum, assembled by hand
+// field by field: 01 | 02dfdc1c35 | 0123456789abcdef0123 | 00000005dc |
+// 00665b0d40 | 003c | 02 | 2329 | 01
+const ASSEMBLED_SWAP = '0x0102dfdc1c350123456789abcdef012300000005dc00665b0d40003c02232901';
+const ASSEMBLED_EXPIRE_TS = 1717243200;  // 2024-06-01T12:00:00Z
+
+describe('encoded swaps', function () {
+  describe('decodeEncodedSwap', function () {
+    it('Should decode a BNB Chain to Aptos swap', function () {
+      expect(decodeEncodedSwap(BSC_TO_APTOS_SWAP)).to.deep.equal({
+        version: 1,
+        amount: BigInt(500000000),
+        salt: BigInt('0xc00000000000f677815c'),
+        fee: BigInt(0),
+        expireTs: 1666042776,
+        outChain: 637,    // SLIP-44 Aptos
+        outToken: 1,
+        inChain: 714,     // SLIP-44 BNB
+        inToken: 33
+      });
+    });
+
+    it('Should decode every field of a swap with distinct values', function () {
+      expect(decodeEncodedSwap(ASSEMBLED_SWAP)).to.deep.equal({
+        version: 1,
+        amount: BigInt('12345678901'),
+        salt: BigInt('0x0123456789abcdef0123'),
+        fee: BigInt(1500),
+        expireTs: ASSEMBLED_EXPIRE_TS,
+        outChain: 60,     // SLIP-44 Ethereum
+        outToken: 2,
+        inChain: 9001,    // Arbitrum
+        inToken: 1
+      });
+    });
+
+    it('Should reject a value that is not 32 bytes of hex', function () {
+      expect(() => decodeEncodedSwap('0x1234')).to.throw('Expected a 32-byte hex string');
+    });
+  });
+
+  describe('verifyEncodedSwap', function () {
+    const now = ASSEMBLED_EXPIRE_TS - 60 * 60;
+
+    it('Should accept the swap that was requested', function () {
+      const checks = verifyEncodedSwap(decodeEncodedSwap(ASSEMBLED_SWAP), { from: 'arb:usdc', to: 'eth:usdt', amount: '12345.678901', now });
+
+      expect(checks.filter(c => !c.ok)).to.deep.equal([]);
+      expect(checks.filter(c => c.skipped)).to.deep.equal([]);
+    });
+
+    it('Should catch swapped source and destination', function () {
+      const checks = verifyEncodedSwap(decodeEncodedSwap(ASSEMBLED_SWAP), { from: 'eth:usdt', to: 'arb:usdc', amount: '12345.678901', now });
+
+      expect(checks.filter(c => !c.ok).map(c => c.field)).to.deep.equal(['inChain', 'inToken', 'outChain', 'outToken']);
+    });
+
+    it('Should catch a different amount or an expiry too far out', function () {
+      const checks = verifyEncodedSwap(decodeEncodedSwap(ASSEMBLED_SWAP), { from: 'arb:usdc', to: 'eth:usdt', amount: '12345.6789', now: now - 2 * 24 * 60 * 60 });
+
+      expect(checks.filter(c => !c.ok).map(c => c.field)).to.deep.equal(['amount', 'expireTs']);
+    });
+  });
+
+  describe('Code tables', function () {
+    it('Should use the SLIP-44 coin types of each chain', function () {
+      expect(CHAIN_CODES).to.deep.equal({
+        eth: 60,
+        bsc: 714,
+        bnb: 714,
+        tron: 195,
+        polygon: 966,
+        avax: 9000,
+        arb: 9001,
+        opt: 614,
+        ftm: 1007,
+        zksync: 804,
+        base: 8453,
+        linea: 59144
+      });
+      expect(TOKEN_INDEXES).to.deep.equal({ usdc: 1, usdt: 2 });
+    });
+  });
+
+  describe('decode command', function () {
+    it('Should print the fields of an encoded swap without contacting the relayer', async function () {
+      const { code, json } = await runCli(['decode', BSC_TO_APTOS_SWAP], { MESON_API_URL: 'http://127.0.0.1:9' });
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json).to.deep.equal({
+        ok: true,
+        command: 'decode',
+        encoded: BSC_TO_APTOS_SWAP,
+        version: 1,
+        amount: '500.0',
+        salt: '0xc00000000000f677815c',
+        fee: '0.0',
+        expireTs: 1666042776,
+        outChain: 637,
+        outToken: 1,
+        inChain: 714,
+        inToken: 33
+      });
+    });
+
+    it('Should reject a malformed encoded swap', async function () {
+      const { code, json } = await runCli(['decode', '0xzz'], {});
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include("Invalid encoded swap '0xzz'");
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+
+const PACKAGE_DIR = path.resolve(__dirname, '..', '..');
+const CLI_TIMEOUT_MS = 60000;
+
+export interface CliResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  json: any;         // Parsed --json output, if stdout held one
+}
+
+/**
+ * Runs meson-cli from source with --json and waits for it to exit
+ *
+ * Only the given environment is passed on (plus PATH), so MESON_* or
+ * PRIVATE_KEY variables from the developer's shell cannot leak into the tests.
+ *
+ * @param args Command and options, e.g. ['bridge', '--from', 'eth:usdc', ...]
+ * @param env Environment variables for the run
+ */
+export function runCli(args: string[], env: Record<string, string> = {}): Promise<CliResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      process.execPath,
+      ['-r', 'ts-node/register/transpile-only', path.join('src', 'cli.ts'), '--json', ...args],
+      { cwd: PACKAGE_DIR, env: { PATH: process.env.PATH || '', ...env } }
+    );
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => stdout += chunk);
+    child.stderr.on('data', chunk => stderr += chunk);
+
+    const timer = setTimeout(() => child.kill(), CLI_TIMEOUT_MS);
+    child.on('error', reject);
+    child.on('close', code => {
+      clearTimeout(timer);
+      let json;
+      try {
+        json = JSON.parse(stdout);
+      } catch {
+        json = undefined;
+      }
+      resolve({ code, stdout, stderr, json });
+    });
+  });
+}
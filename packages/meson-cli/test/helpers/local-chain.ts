@@ -0,0 +1,219 @@
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { CREATE2_FACTORY_ADDRESS } from '../../src/contract';
+
+const CONTRACT_PACKAGE_DIR = path.resolve(__dirname, '..', '..', '..', 'contract');
+const ARTIFACTS_DIR = path.join(CONTRACT_PACKAGE_DIR, 'artifacts', 'contracts', 'mocks');
+const NODE_START_TIMEOUT_MS = 60000;
+export const COMPILE_TIMEOUT_MS = 180000;
+
+// First two accounts of the Hardhat node (its well-known development mnemonic)
+export const DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+export const USER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Test contracts of the contract package deployed by the tests
+const MOCK_CONTRACTS = ['MockMeson', 'MockERC20'] as const;
+type MockContract = typeof MOCK_CONTRACTS[number];
+
+// Meson's placeholder address for the chain's core token
+export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000001';
+
+// Runtime code of the deterministic deployment proxy used for CREATE2 deployments
+const CREATE2_FACTORY_CODE = '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3';
+
+/**
+ * A Hardhat node started for the tests
+ */
+export interface LocalChain {
+  rpcUrl: string;
+  provider: ethers.JsonRpcProvider;
+  stop(): Promise<void>;
+}
+
+/**
+ * Compiles the contract package so `deployMock()` finds its artifacts
+ *
+ * Hardhat downloads the pinned compiler on first use. If compiling fails,
+ * e.g. offline, artifacts compiled earlier or copied in are used as they are.
+ *
+ * @returns Why the mock contracts cannot be deployed, or undefined if they can
+ */
+export async function compileContracts(): Promise<string | undefined> {
+  const child = spawn(
+    process.execPath,
+    [require.resolve('hardhat/internal/cli/cli', { paths: [CONTRACT_PACKAGE_DIR] }), 'compile', '--quiet'],
+    { cwd: CONTRACT_PACKAGE_DIR, env: process.env }
+  );
+
+  let output = '';
+  child.stdout?.on('data', chunk => output += chunk);
+  child.stderr?.on('data', chunk => output += chunk);
+  const timer = setTimeout(() => child.kill(), COMPILE_TIMEOUT_MS);
+  const code = await new Promise<number | null>(resolve => child.on('exit', resolve));
+  clearTimeout(timer);
+
+  if (MOCK_CONTRACTS.every(name => fs.existsSync(artifactPath(name)))) {
+    return undefined;
+  }
+  if (code === 0) {
+    return `hardhat compile did not produce the ${MOCK_CONTRACTS.join(' and ')} artifacts`;
+  }
+  const reason = output.trim().split('\n').find(line => /^Error HH\d+|Error:/.test(line.trim()));
+  return `the contract package could not be compiled (${reason?.trim() || `exit code ${code}`}) and has no artifacts`;
+}
+
+/**
+ * Starts a Hardhat node from the contract package on a free port
+ *
+ * The node does not compile anything: call `compileContracts()` first so
+ * `deployMock()` finds the artifacts. The CREATE2 deployment proxy is
+ * installed at its usual address.
+ */
+export async function startLocalChain(): Promise<LocalChain> {
+  const port = await freePort();
+  const child = spawn(
+    process.execPath,
+    [require.resolve('hardhat/internal/cli/cli', { paths: [CONTRACT_PACKAGE_DIR] }), 'node', '--hostname', '127.0.0.1', '--port', String(port)],
+    { cwd: CONTRACT_PACKAGE_DIR, env: process.env }
+  );
+
+  const stop = () => stopProcess(child);
+
+  try {
+    await waitForOutput(child, 'Started HTTP and WebSocket JSON-RPC server');
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+  await provider.send('hardhat_setCode', [CREATE2_FACTORY_ADDRESS, CREATE2_FACTORY_CODE]);
+  return {
+    rpcUrl,
+    provider,
+    stop: async () => {
+      provider.destroy();
+      await stop();
+    }
+  };
+}
+
+/**
+ * Deploys one of the contract package's mock contracts
+ *
+ * @param name Contract name (MockMeson or MockERC20)
+ * @param signer Deployer
+ * @param args Constructor arguments
+ */
+export async function deployMock(name: MockContract, signer: ethers.Signer, ...args: unknown[]): Promise<ethers.Contract> {
+  const artifactFile = artifactPath(name);
+  if (!fs.existsSync(artifactFile)) {
+    throw new Error(`${artifactFile} not found. Compile the contract package first (npx hardhat compile).`);
+  }
+
+  const artifact = JSON.parse(fs.readFileSync(artifactFile, 'utf8'));
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer);
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+/**
+ * A JSON-RPC endpoint that forwards to a node, with some methods answered differently
+ */
+export interface RpcProxy {
+  url: string;
+  stop(): Promise<void>;
+}
+
+type RpcRequest = { jsonrpc: string, id: number, method: string, params: unknown[] };
+type RpcResponse = { jsonrpc: string, id: number, result?: unknown, error?: unknown };
+
+/**
+ * Starts a JSON-RPC proxy in front of a node
+ *
+ * @param rpcUrl The node to forward to
+ * @param intercept Returns the reply to a request, or undefined to use the node's reply
+ *   as is; `forward` asks the node, for replies that only change part of the result
+ */
+export async function startRpcProxy(
+  rpcUrl: string,
+  intercept: (request: RpcRequest, forward: () => Promise<RpcResponse>) => Promise<RpcResponse | undefined>
+): Promise<RpcProxy> {
+  const forward = async (request: RpcRequest): Promise<RpcResponse> => {
+    const response = await fetch(rpcUrl, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(request) });
+    return response.json() as Promise<RpcResponse>;
+  };
+  const reply = async (request: RpcRequest) => (await intercept(request, () => forward(request))) ?? forward(request);
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', async () => {
+      // ethers batches requests sent in the same tick
+      const payload = JSON.parse(body);
+      const result = Array.isArray(payload) ? await Promise.all(payload.map(reply)) : await reply(payload);
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(result));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`,
+    stop: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+function artifactPath(name: MockContract): string {
+  return path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`);
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function waitForOutput(child: ChildProcess, text: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Hardhat node did not start:\n${output}`)), NODE_START_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk;
+      if (output.includes(text)) {
+        clearTimeout(timer);
+        child.stdout?.off('data', onData);
+        // Keep draining the node's output so it never blocks on a full pipe
+        child.stdout?.resume();
+        resolve();
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', chunk => output += chunk);
+    child.on('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`Hardhat node exited with code ${code}:\n${output}`));
+    });
+  });
+}
+
+function stopProcess(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    child.once('exit', () => resolve());
+    child.kill();
+  });
+}
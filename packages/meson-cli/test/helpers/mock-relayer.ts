@@ -0,0 +1,236 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { Chain, ChainLimit, EncodeSwapResult } from '../../src/types';
+import { CHAIN_CODES, TOKEN_INDEXES, MESON_DECIMALS } from '../../src/encoded-swap';
+
+// Relayer endpoints that can be made to fail
+export type RelayerRoute = 'list' | 'limits' | 'encode' | 'submit' | 'submit-contract' | 'status';
+
+/**
+ * How a relayer endpoint should fail
+ */
+export interface RelayerFailure {
+  status?: number;   // HTTP status (default 400)
+  error?: { code: number, message: string, data?: { code: string } };
+  drop?: boolean;    // Close the connection without answering
+  retryAfter?: string; // Retry-After header sent with the failure
+  times?: number;    // Fail only this many requests, then answer normally again
+}
+
+export interface RecordedRequest {
+  route: RelayerRoute;
+  method: string;
+  path: string;
+  body?: any;
+}
+
+/**
+ * Fields of a swap as the mock relayer encodes it
+ */
+export interface MockSwapFields {
+  amount: bigint;    // 6 decimals
+  expireTs: number;
+  outChain: number;
+  outToken: number;
+  inChain: number;
+  inToken: number;
+}
+
+const SIGN_REQUEST_MESSAGE = 'Sign to request a swap on Meson';
+// REQUEST_TYPE_HASH of the Meson contracts: keccak256("bytes32 Sign to request a swap on Meson")
+const REQUEST_TYPE_HASH = '0x9862d877599564bcd97c37305a7b0fdbe621d9c2a125026f2ad601f754a75abc';
+const DEFAULT_FEE: EncodeSwapResult['fee'] = { serviceFee: '0.1', lpFee: '0.2', totalFee: '0.3' };
+
+/**
+ * In-process stand-in for the Meson relayer API
+ *
+ * Serves `/list` and `/limits` from `chains` and `limits`, encodes swaps
+ * the way the relayer does, and records every request so tests can check
+ * what the CLI sent. Any endpoint can be made to fail with `fail()`.
+ */
+export class MockRelayer {
+  chains: Chain[];
+  limits: ChainLimit[];
+  // Token indexes of tokens not listed in TOKEN_INDEXES (e.g. core tokens)
+  tokenIndexes: Record<string, number> = {};
+  // Changes the fields of every encoded swap, to simulate a misbehaving relayer
+  tamper?: (fields: MockSwapFields) => MockSwapFields;
+  // Fee quoted for every encoded swap
+  fee: EncodeSwapResult['fee'] = DEFAULT_FEE;
+  // Fee quoted per destination chain:token instead of `fee`; throwing rejects the route
+  feeFor?: (to: string) => EncodeSwapResult['fee'];
+  // Replaces the hash to sign of every encoded swap, to simulate a misbehaving relayer
+  signingHash?: (encoded: string, recipient: string) => string;
+  readonly requests: RecordedRequest[] = [];
+
+  private server?: http.Server;
+  private failures = new Map<RelayerRoute, RelayerFailure>();
+  private salt = BigInt(0);
+
+  constructor(chains: Chain[], limits: ChainLimit[]) {
+    this.chains = chains;
+    this.limits = limits;
+  }
+
+  /**
+   * Starts listening on a free local port
+   * @returns The API base URL
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise(resolve => this.server!.close(resolve));
+      this.server = undefined;
+    }
+  }
+
+  /**
+   * Makes following requests to an endpoint fail (all of them unless `times` is set)
+   */
+  fail(route: RelayerRoute, failure: RelayerFailure = {}): void {
+    this.failures.set(route, { ...failure });
+  }
+
+  /**
+   * Clears recorded requests and configured failures
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.failures.clear();
+    this.tamper = undefined;
+    this.fee = DEFAULT_FEE;
+    this.feeFor = undefined;
+    this.signingHash = undefined;
+  }
+
+  /**
+   * Recorded requests to one endpoint
+   */
+  requestsTo(route: RelayerRoute): RecordedRequest[] {
+    return this.requests.filter(r => r.route === route);
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => {
+      const method = req.method || 'GET';
+      const path = (req.url || '/').split('?')[0];
+      const route = routeOf(method, path);
+      const send = (body: unknown, status = 200, headers: Record<string, string> = {}) => {
+        res.writeHead(status, { 'content-type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+      };
+
+      if (!route) {
+        return send({ error: { code: -32601, message: `No route for ${method} ${path}` } }, 404);
+      }
+
+      this.requests.push({ route, method, path, body: raw ? JSON.parse(raw) : undefined });
+
+      const failure = this.failures.get(route);
+      if (failure?.times !== undefined && --failure.times <= 0) {
+        this.failures.delete(route);
+      }
+      if (failure?.drop) {
+        return req.socket.destroy();
+      }
+      if (failure) {
+        return send(
+          { error: failure.error || { code: -32000, message: 'Mock relayer failure' } },
+          failure.status || 400,
+          failure.retryAfter !== undefined ? { 'retry-after': failure.retryAfter } : {}
+        );
+      }
+
+      const encoded = path.split('/').pop() as string;
+      switch (route) {
+        case 'list':
+          return send({ result: this.chains });
+        case 'limits':
+          return send({ result: this.limits });
+        case 'encode':
+          try {
+            return send({ result: this.encode(JSON.parse(raw)) });
+          } catch (error) {
+            return send({ error: { code: -32602, message: error instanceof Error ? error.message : String(error) } }, 400);
+          }
+        case 'submit':
+        case 'submit-contract':
+          return send({ result: { swapId: ethers.keccak256(encoded) } });
+        case 'status':
+          return send({ result: { swapId: ethers.keccak256(encoded), encoded, events: [{ name: 'POSTED' }] } });
+      }
+    });
+  }
+
+  private encode(params: { from: string, to: string, amount: string, fromAddress: string, recipient: string, fromContract?: boolean }) {
+    const [fromChain, fromToken] = params.from.split(':');
+    const [toChain, toToken] = params.to.split(':');
+
+    let fields: MockSwapFields = {
+      amount: ethers.parseUnits(params.amount, MESON_DECIMALS),
+      expireTs: Math.floor(Date.now() / 1000) + 2 * 60 * 60,
+      outChain: CHAIN_CODES[toChain],
+      outToken: this.tokenIndex(toToken),
+      inChain: CHAIN_CODES[fromChain],
+      inToken: this.tokenIndex(fromToken)
+    };
+    if (this.tamper) {
+      fields = this.tamper(fields);
+    }
+
+    // A different salt for every swap keeps encoded swaps unique
+    const value =
+      (BigInt(1) << BigInt(248)) |
+      (fields.amount << BigInt(208)) |
+      ((BigInt(0xc0) + this.salt++) << BigInt(128)) |
+      (BigInt(fields.expireTs) << BigInt(48)) |
+      (BigInt(fields.outChain) << BigInt(32)) |
+      (BigInt(fields.outToken) << BigInt(24)) |
+      (BigInt(fields.inChain) << BigInt(8)) |
+      BigInt(fields.inToken);
+    const encoded = ethers.toBeHex(value, 32);
+
+    return {
+      encoded,
+      fromAddress: params.fromAddress,
+      recipient: params.recipient,
+      fee: this.feeFor ? this.feeFor(params.to) : this.fee,
+      ...(params.fromContract ? {} : {
+        signingRequest: {
+          message: SIGN_REQUEST_MESSAGE,
+          hash: this.signingHash
+            ? this.signingHash(encoded, params.recipient)
+            : ethers.keccak256(ethers.concat([REQUEST_TYPE_HASH, ethers.keccak256(encoded)]))
+        }
+      })
+    };
+  }
+
+  private tokenIndex(tokenId: string): number {
+    const index = TOKEN_INDEXES[tokenId] ?? this.tokenIndexes[tokenId];
+    if (index === undefined) {
+      throw new Error(`Mock relayer has no token index for '${tokenId}'`);
+    }
+    return index;
+  }
+}
+
+function routeOf(method: string, path: string): RelayerRoute | undefined {
+  if (method === 'GET' && path === '/list') return 'list';
+  if (method === 'GET' && path === '/limits') return 'limits';
+  if (method === 'POST' && path === '/swap') return 'encode';
+  if (method === 'POST' && path.startsWith('/swap/from-contract/')) return 'submit-contract';
+  if (method === 'POST' && path.startsWith('/swap/')) return 'submit';
+  if (method === 'GET' && path.startsWith('/swap/')) return 'status';
+  return undefined;
+}
@@ -0,0 +1,185 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+import { LedgerEntry } from '../src/ledger';
+
+const ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * A ledger entry with a distinct encoded swap
+ */
+function entry(id: number, fields: Partial<LedgerEntry> & Pick<LedgerEntry, 'timestamp' | 'from' | 'to' | 'status'>): LedgerEntry {
+  return {
+    command: 'bridge',
+    network: 'mainnet',
+    amount: '10',
+    fee: { serviceFee: '0.1', lpFee: '0.2', totalFee: '0.3' },
+    encoded: ethers.toBeHex(id, 32),
+    fromAddress: ADDRESS,
+    recipient: ADDRESS,
+    statusUpdatedAt: fields.timestamp,
+    ...fields
+  };
+}
+
+const FIRST_OF_MAY = entry(1, { timestamp: '2024-05-01T00:00:00.000Z', from: 'eth:usdc', to: 'bsc:usdc', status: 'PENDING', swapId: ethers.keccak256(ethers.toBeHex(1, 32)) });
+const MID_MAY = entry(2, { timestamp: '2024-05-15T08:00:00.000Z', from: 'eth:usdc', to: 'polygon:usdc', status: 'SUBMIT_UNCONFIRMED', error: 'Network error while submitting swap' });
+const END_OF_MAY = entry(3, { timestamp: '2024-05-31T23:30:00.000Z', from: 'bsc:usdc', to: 'arb:usdc', status: 'RELEASED', swapId: ethers.keccak256(ethers.toBeHex(3, 32)) });
+const FIRST_OF_JUNE = entry(4, { timestamp: '2024-06-01T00:00:00.000Z', from: 'arb:usdt', to: 'polygon:usdt', status: 'SUBMIT_FAILED', error: 'Invalid "signature", try again' });
+const TESTNET = entry(5, { timestamp: '2024-05-20T00:00:00.000Z', network: 'testnet', from: 'eth:usdc', to: 'bsc:usdc', status: 'SUBMIT_UNCONFIRMED' });
+
+describe('history', function () {
+  const relayer = new MockRelayer([], []);
+  let apiUrl: string;
+  let tmpDir: string;
+  let ledgerFile: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meson-cli-test-'));
+    ledgerFile = path.join(tmpDir, 'ledger.json');
+    fs.writeFileSync(ledgerFile, JSON.stringify([FIRST_OF_MAY, MID_MAY, END_OF_MAY, FIRST_OF_JUNE, TESTNET]));
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function history(...args: string[]) {
+    return runCli(['--ledger', ledgerFile, 'history', ...args], { MESON_API_URL: apiUrl, MESON_RETRIES: '0' });
+  }
+
+  function encodedOf(result: { json: { entries: LedgerEntry[] } }): string[] {
+    return result.json.entries.map(e => e.encoded);
+  }
+
+  function readLedger(): LedgerEntry[] {
+    return JSON.parse(fs.readFileSync(ledgerFile, 'utf8'));
+  }
+
+  describe('Filters', function () {
+    it('Should list every swap, newest first', async function () {
+      const result = await history();
+
+      expect(result.code).to.equal(EXIT_CODES.SUCCESS);
+      expect(result.json.ledger).to.equal(ledgerFile);
+      expect(encodedOf(result)).to.deep.equal([FIRST_OF_JUNE, END_OF_MAY, TESTNET, MID_MAY, FIRST_OF_MAY].map(e => e.encoded));
+    });
+
+    it('Should select swaps from or to a chain', async function () {
+      const result = await history('--chain', 'bsc');
+
+      expect(encodedOf(result)).to.deep.equal([END_OF_MAY, TESTNET, FIRST_OF_MAY].map(e => e.encoded));
+    });
+
+    it('Should include both days of a --since / --until date range', async function () {
+      const result = await history('--since', '2024-05-01', '--until', '2024-05-31');
+
+      expect(encodedOf(result)).to.deep.equal([END_OF_MAY, TESTNET, MID_MAY, FIRST_OF_MAY].map(e => e.encoded));
+    });
+
+    it('Should compare timestamps given with a time exactly', async function () {
+      const result = await history('--since', '2024-05-01T00:00:01Z', '--until', '2024-06-01T00:00:00Z');
+
+      expect(encodedOf(result)).to.deep.equal([FIRST_OF_JUNE, END_OF_MAY, TESTNET, MID_MAY].map(e => e.encoded));
+    });
+
+    it('Should select swaps in any of the given states, ignoring case', async function () {
+      const result = await history('--status', 'released, submit_failed');
+
+      expect(encodedOf(result)).to.deep.equal([FIRST_OF_JUNE, END_OF_MAY].map(e => e.encoded));
+    });
+
+    it('Should reject an unknown state', async function () {
+      const { code, json } = await history('--status', 'DONE');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('Unknown status DONE');
+    });
+
+    it('Should reject a date it cannot read', async function () {
+      const { code, json } = await history('--since', 'last week');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include("--since must be a date such as 2024-05-01 or 2024-05-01T12:00:00Z, got 'last week'");
+    });
+  });
+
+  describe('CSV export', function () {
+    const HEADER = 'timestamp,network,command,from,to,amount,serviceFee,lpFee,totalFee,status,statusUpdatedAt,swapId,txHash,encoded,fromAddress,recipient,transferContract,error';
+
+    it('Should write the filtered swaps to stdout with quoted cells escaped', async function () {
+      const { code, stdout } = await history('--csv', '--status', 'SUBMIT_FAILED');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(stdout.split('\n')).to.deep.equal([
+        HEADER,
+        [
+          FIRST_OF_JUNE.timestamp, 'mainnet', 'bridge', 'arb:usdt', 'polygon:usdt', '10', '0.1', '0.2', '0.3',
+          'SUBMIT_FAILED', FIRST_OF_JUNE.timestamp, '', '', FIRST_OF_JUNE.encoded, ADDRESS, ADDRESS, '',
+          '"Invalid ""signature"", try again"'
+        ].join(','),
+        ''
+      ]);
+    });
+
+    it('Should write the CSV to a file', async function () {
+      const csvFile = path.join(tmpDir, 'swaps.csv');
+
+      const { code, json } = await history('--csv', csvFile, '--chain', 'polygon');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json).to.include({ csv: csvFile, count: 2 });
+      const lines = fs.readFileSync(csvFile, 'utf8').trimEnd().split('\n');
+      expect(lines[0]).to.equal(HEADER);
+      expect(lines.slice(1).map(line => line.split(',')[13])).to.deep.equal([FIRST_OF_JUNE.encoded, MID_MAY.encoded]);
+    });
+  });
+
+  describe('Refresh', function () {
+    it('Should update swaps that are not final on the configured network', async function () {
+      const { code, json } = await history('refresh');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json).to.include({ skipped: 1 });
+      expect(json.failed).to.deep.equal([]);
+      expect(relayer.requestsTo('status').map(r => r.path)).to.have.members([
+        `/swap/${FIRST_OF_MAY.swapId}`,
+        `/swap/${MID_MAY.encoded}`
+      ]);
+
+      const ledger = readLedger();
+      const unconfirmed = ledger.find(e => e.encoded === MID_MAY.encoded)!;
+      expect(unconfirmed).to.include({ status: 'POSTED', swapId: ethers.keccak256(MID_MAY.encoded) });
+      expect(unconfirmed).to.not.have.property('error');
+      expect(unconfirmed.statusUpdatedAt).to.not.equal(MID_MAY.statusUpdatedAt);
+      expect(ledger.find(e => e.encoded === END_OF_MAY.encoded)).to.deep.equal(END_OF_MAY);
+      expect(ledger.find(e => e.encoded === FIRST_OF_JUNE.encoded)).to.deep.equal(FIRST_OF_JUNE);
+      expect(ledger.find(e => e.encoded === TESTNET.encoded)).to.deep.equal(TESTNET);
+    });
+
+    it('Should keep a swap unchanged when its lookup fails', async function () {
+      relayer.fail('status', { status: 404, error: { code: -32602, message: 'Swap not found' } });
+
+      const { code, json } = await history('refresh');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json.updated).to.deep.equal([]);
+      expect(json.failed).to.have.length(2);
+      expect(readLedger().find(e => e.encoded === MID_MAY.encoded)).to.deep.equal(MID_MAY);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+import { QUOTE_PLACEHOLDER_ADDRESS } from '../src/quote';
+
+const ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const MESON_ADDRESS = '0x25aB3Efd52e6470681CE037cD546Dc60726948D3';
+
+describe('quote', function () {
+  const relayer = new MockRelayer(
+    [
+      { id: 'eth', name: 'Ethereum', chainId: '0x1', address: MESON_ADDRESS, tokens: [{ id: 'usdc' }, { id: 'usdt' }] },
+      { id: 'bsc', name: 'BNB Chain', chainId: '0x38', address: MESON_ADDRESS, tokens: [{ id: 'usdc' }, { id: 'usdt' }] },
+      { id: 'arb', name: 'Arbitrum', chainId: '0xa4b1', address: MESON_ADDRESS, tokens: [{ id: 'usdc' }] },
+      { id: 'polygon', name: 'Polygon', chainId: '0x89', address: MESON_ADDRESS, tokens: [{ id: 'usdc' }] }
+    ],
+    []
+  );
+  let apiUrl: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+    // Fees that sort differently as numbers and as strings, and one route without liquidity
+    const fees: Record<string, string> = { 'bsc:usdc': '10', 'bsc:usdt': '9.5', 'arb:usdc': '0.05' };
+    relayer.feeFor = to => {
+      if (!fees[to]) {
+        throw new Error(`No liquidity for ${to}`);
+      }
+      return { serviceFee: '0', lpFee: fees[to], totalFee: fees[to] };
+    };
+  });
+
+  function quote(...extra: string[]) {
+    return runCli(['quote', '--from', 'eth:usdc', '--amount', '100', ...extra], { MESON_API_URL: apiUrl, MESON_RETRIES: '0' });
+  }
+
+  it('Should rank the expanded destinations by total fee with rejected routes last', async function () {
+    const { code, json } = await quote('--to-chain', '*:usdc', '--to', 'bsc:usdt');
+
+    expect(code).to.equal(EXIT_CODES.SUCCESS);
+    expect(json.quotes.map((q: { to: string }) => q.to)).to.deep.equal(['arb:usdc', 'bsc:usdt', 'bsc:usdc', 'polygon:usdc']);
+    expect(json.quotes[0]).to.include({ from: 'eth:usdc', amount: '100', netReceived: '99.95' });
+    expect(json.quotes[3].error).to.include('No liquidity for polygon:usdc');
+    expect(relayer.requestsTo('encode').map(r => r.body.to)).to.have.members(['bsc:usdt', 'bsc:usdc', 'arb:usdc', 'polygon:usdc']);
+  });
+
+  it('Should encode with a placeholder address when --address is not given', async function () {
+    const { code } = await quote('--to', 'arb:usdc');
+
+    expect(code).to.equal(EXIT_CODES.SUCCESS);
+    const [request] = relayer.requestsTo('encode');
+    expect(request.body).to.include({ from: 'eth:usdc', to: 'arb:usdc', amount: '100', fromAddress: QUOTE_PLACEHOLDER_ADDRESS, recipient: QUOTE_PLACEHOLDER_ADDRESS });
+  });
+
+  it('Should encode with the given address and default the recipient to it', async function () {
+    const { code } = await quote('--to', 'arb:usdc', '--address', ADDRESS);
+
+    expect(code).to.equal(EXIT_CODES.SUCCESS);
+    expect(relayer.requestsTo('encode')[0].body).to.include({ fromAddress: ADDRESS, recipient: ADDRESS });
+  });
+
+  it('Should reject a pattern without a token part', async function () {
+    const { code, json } = await quote('--to-chain', '*');
+
+    expect(code).to.equal(EXIT_CODES.VALIDATION);
+    expect(json.error.message).to.include("Invalid destination pattern '*'");
+    expect(relayer.requestsTo('encode')).to.have.length(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import { computeSigningHash, signingSchemeFrom } from '../src/signature';
+
+const ENCODED = '0x01001dcd6500c00000000000f677815c000000000000634dcb98027d0102ca21';
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+// Digests of ENCODED (and RECIPIENT for releases) computed on the EVM by the
+// assembly of MesonHelpers._checkRequestSignature and _checkReleaseSignature
+// in the Meson contracts, not by this package
+const REQUEST_HASH = '0x19e3e9642b097ef0fa12ee0f3a34120119a8028519b1e204465e81cffb74dbf4';
+const REQUEST_HASH_TESTNET = '0x0be39f5eed369aaee5cea9051e5649054cd01f90ab7ae1e4f991bbab6413486e';
+const RELEASE_HASH = '0x0365aa852486c22e2e347ecd46fdf73cd2452ecf1e602bf6fa0e5d2feb94193d';
+const RELEASE_HASH_TESTNET = '0x028130fe405aa0a1b0f49265ba3931f3e24fef80d6f893ff385441b53ad9375a';
+
+describe('signing hashes', function () {
+  describe('computeSigningHash', function () {
+    it('Should compute the mainnet request hash', function () {
+      expect(computeSigningHash(ENCODED, RECIPIENT, { kind: 'request', testnet: false })).to.equal(REQUEST_HASH);
+    });
+
+    it('Should compute the testnet request hash', function () {
+      expect(computeSigningHash(ENCODED, RECIPIENT, { kind: 'request', testnet: true })).to.equal(REQUEST_HASH_TESTNET);
+    });
+
+    it('Should compute the release hash over the swap and recipient', function () {
+      expect(computeSigningHash(ENCODED, RECIPIENT, { kind: 'release', testnet: false })).to.equal(RELEASE_HASH);
+      expect(computeSigningHash(ENCODED, RECIPIENT, { kind: 'release', testnet: true })).to.equal(RELEASE_HASH_TESTNET);
+    });
+
+    it('Should not depend on the recipient for requests', function () {
+      const other = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+      expect(computeSigningHash(ENCODED, other, { kind: 'request', testnet: false })).to.equal(REQUEST_HASH);
+      expect(computeSigningHash(ENCODED, other, { kind: 'release', testnet: false })).to.not.equal(RELEASE_HASH);
+    });
+  });
+
+  describe('signingSchemeFrom', function () {
+    it('Should read the kind and network from the notice', function () {
+      expect(signingSchemeFrom('Sign to request a swap on Meson', true)).to.deep.equal({ kind: 'request', testnet: false });
+      expect(signingSchemeFrom('Sign to request a swap on Meson (Testnet)', false)).to.deep.equal({ kind: 'request', testnet: true });
+      expect(signingSchemeFrom('Sign to release a swap on Meson', false)).to.deep.equal({ kind: 'release', testnet: false });
+    });
+
+    it('Should read hex-encoded notices', function () {
+      const message = ethers.hexlify(ethers.toUtf8Bytes('Sign to release a swap on Meson (Testnet)'));
+
+      expect(signingSchemeFrom(message, false)).to.deep.equal({ kind: 'release', testnet: true });
+    });
+
+    it('Should fall back to the configured network for other messages', function () {
+      expect(signingSchemeFrom('0x1234', true)).to.deep.equal({ kind: 'request', testnet: true });
+      expect(signingSchemeFrom('Please sign', false)).to.deep.equal({ kind: 'request', testnet: false });
+    });
+  });
+});
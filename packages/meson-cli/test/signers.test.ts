@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const KEYSTORE_PASSWORD = 'correct horse battery staple';
+
+// Hardhat's development mnemonic and its first accounts on the default path
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const MNEMONIC_ACCOUNTS = [
+  '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+];
+
+describe('signers', function () {
+  const relayer = new MockRelayer(
+    [
+      { id: 'eth', name: 'Ethereum', chainId: '0x1', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc', addr: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' }] },
+      { id: 'bsc', name: 'BNB Chain', chainId: '0x38', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc', addr: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' }] }
+    ],
+    [
+      { id: 'eth', name: 'Ethereum', tokens: [{ id: 'usdc', min: '5', max: '5000' }] },
+      { id: 'bsc', name: 'BNB Chain', tokens: [{ id: 'usdc', min: '1', max: '5000' }] }
+    ]
+  );
+  let apiUrl: string;
+  let tmpDir: string;
+  let keystoreFile: string;
+  let passwordFile: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meson-cli-test-'));
+    keystoreFile = path.join(tmpDir, 'keystore.json');
+    passwordFile = path.join(tmpDir, 'password.txt');
+
+    // A cheap scrypt setting keeps decryption fast in the tests
+    const wallet = new ethers.Wallet(PRIVATE_KEY);
+    fs.writeFileSync(keystoreFile, ethers.encryptKeystoreJsonSync(wallet, KEYSTORE_PASSWORD, { scrypt: { N: 1024 } }));
+    fs.writeFileSync(passwordFile, `${KEYSTORE_PASSWORD}\n`);
+  });
+
+  after(async function () {
+    await relayer.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+  });
+
+  function dryRun(env: Record<string, string>, ...extra: string[]) {
+    return runCli(
+      ['bridge', '--from', 'eth:usdc', '--to', 'bsc:usdc', '--amount', '10', '--recipient', RECIPIENT, '--dry-run', ...extra],
+      { MESON_API_URL: apiUrl, MESON_LEDGER: path.join(tmpDir, 'ledger.json'), MESON_RETRIES: '0', ...env }
+    );
+  }
+
+  describe('Keystore', function () {
+    const address = new ethers.Wallet(PRIVATE_KEY).address;
+
+    it('Should decrypt the keystore with --password-file', async function () {
+      const { code, json } = await dryRun({}, '--signer', `keystore:${keystoreFile}`, '--password-file', passwordFile);
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json.fromAddress).to.equal(address);
+      expect(relayer.requestsTo('encode')[0].body.fromAddress).to.equal(address);
+    });
+
+    it('Should decrypt the keystore with KEYSTORE_PASSWORD', async function () {
+      const { code, json } = await dryRun({ KEYSTORE_PASSWORD }, '--signer', `keystore:${keystoreFile}`);
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json.fromAddress).to.equal(address);
+    });
+
+    it('Should reject a wrong password', async function () {
+      const { code, json } = await dryRun({ KEYSTORE_PASSWORD: 'wrong' }, '--signer', `keystore:${keystoreFile}`);
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include(`Could not decrypt keystore '${keystoreFile}'`);
+      expect(relayer.requestsTo('encode')).to.have.length(0);
+    });
+
+    it('Should require a password when not running in a terminal', async function () {
+      const { code, json } = await dryRun({}, '--signer', `keystore:${keystoreFile}`);
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('KEYSTORE_PASSWORD');
+    });
+  });
+
+  describe('Mnemonic', function () {
+    it('Should use the first account on the default path', async function () {
+      const { code, json } = await dryRun({ MNEMONIC }, '--signer', 'mnemonic');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json.fromAddress).to.equal(MNEMONIC_ACCOUNTS[0]);
+    });
+
+    it('Should use the account selected with --hd-index', async function () {
+      const { code, json } = await dryRun({ MNEMONIC }, '--signer', 'mnemonic', '--hd-index', '1');
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json.fromAddress).to.equal(MNEMONIC_ACCOUNTS[1]);
+    });
+
+    it('Should use the account at --hd-path', async function () {
+      const { code, json } = await dryRun({ MNEMONIC }, '--signer', 'mnemonic', '--hd-path', "m/44'/60'/0'/0/2");
+
+      expect(code).to.equal(EXIT_CODES.SUCCESS);
+      expect(json.fromAddress).to.equal(MNEMONIC_ACCOUNTS[2]);
+    });
+
+    it('Should reject a negative --hd-index', async function () {
+      const { code, json } = await dryRun({ MNEMONIC }, '--signer', 'mnemonic', '--hd-index', '-1');
+
+      expect(code).to.equal(EXIT_CODES.VALIDATION);
+      expect(json.error.message).to.include('--hd-index must be a non-negative integer');
+    });
+  });
+});
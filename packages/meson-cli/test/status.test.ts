@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+
+const ENCODED = '0x01001dcd6500c00000000000f677815c000000000000634dcb98027d0102ca21';
+
+describe('status', function () {
+  const relayer = new MockRelayer([], []);
+  let apiUrl: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+  });
+
+  function status(...args: string[]) {
+    return runCli(['status', ENCODED, ...args], { MESON_API_URL: apiUrl, MESON_RETRIES: '0' });
+  }
+
+  it('Should exit with the pending code when a single lookup finds the swap in progress', async function () {
+    const { code, json } = await status();
+
+    expect(code).to.equal(EXIT_CODES.SWAP_PENDING);
+    expect(json).to.include({ ok: true, state: 'POSTED', timedOut: false });
+  });
+
+  it('Should keep watching while the relayer does not know the swap yet', async function () {
+    relayer.fail('status', { status: 404, error: { code: -32602, message: 'Swap not found' }, times: 2 });
+
+    const { code, json } = await status('--watch', '--interval', '0.2', '--timeout', '3');
+
+    expect(code).to.equal(EXIT_CODES.TIMEOUT);
+    expect(json).to.include({ ok: true, state: 'POSTED', timedOut: true });
+    expect(relayer.requestsTo('status').length).to.be.greaterThan(2);
+  });
+
+  it('Should stop watching on an error that is not transient', async function () {
+    relayer.fail('status', { status: 400, error: { code: -32602, message: 'Invalid swap id' } });
+
+    const { code, json } = await status('--watch', '--interval', '0.2', '--timeout', '3');
+
+    expect(code).to.equal(EXIT_CODES.API);
+    expect(json.error.message).to.include('Invalid swap id');
+  });
+
+  it('Should reject a swap ID that is not 32 bytes of hex without contacting the relayer', async function () {
+    const { code, json } = await runCli(['status', '../chains'], { MESON_API_URL: apiUrl, MESON_RETRIES: '0' });
+
+    expect(code).to.equal(EXIT_CODES.VALIDATION);
+    expect(json.error.message).to.include("Invalid swap ID or encoded swap '../chains'");
+    expect(relayer.requests).to.have.length(0);
+  });
+});
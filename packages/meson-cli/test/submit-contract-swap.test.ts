@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { MockRelayer } from './helpers/mock-relayer';
+import { runCli } from './helpers/cli';
+import { EXIT_CODES } from '../src/errors';
+import { LedgerEntry } from '../src/ledger';
+
+const ENCODED = '0x01001dcd6500c00000000000f677815c000000000000634dcb98027d0102ca21';
+const TX_HASH = '0x5f3c1f4cbd9b2c84f0d5e1c1b8e1f3f5a0c6f2a7e4d9b3c8a1f0e2d4c6b8a9e1';
+
+describe('submit-contract-swap', function () {
+  const relayer = new MockRelayer([], []);
+  let apiUrl: string;
+  let tmpDir: string;
+  let ledgerFile: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meson-cli-test-'));
+    ledgerFile = path.join(tmpDir, 'ledger.json');
+
+    // A bridge-contract swap that was mined but whose notification failed
+    const entry: LedgerEntry = {
+      timestamp: '2024-05-01T12:00:00.000Z',
+      command: 'bridge-contract',
+      network: 'mainnet',
+      from: 'eth:usdc',
+      to: 'bsc:usdc',
+      amount: '10',
+      encoded: ENCODED,
+      txHash: TX_HASH,
+      fromAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      recipient: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      status: 'PENDING',
+      statusUpdatedAt: '2024-05-01T12:00:00.000Z',
+      error: 'Network error while submitting contract swap'
+    };
+    fs.writeFileSync(ledgerFile, JSON.stringify([entry]));
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function submitContractSwap() {
+    return runCli(
+      ['submit-contract-swap', '--encoded', ENCODED, '--hash', TX_HASH],
+      { MESON_API_URL: apiUrl, MESON_LEDGER: ledgerFile, MESON_RETRIES: '0' }
+    );
+  }
+
+  function readLedger(): LedgerEntry[] {
+    return JSON.parse(fs.readFileSync(ledgerFile, 'utf8'));
+  }
+
+  it('Should send the transaction hash for the encoded swap and record the swap ID', async function () {
+    const { code, json } = await submitContractSwap();
+
+    expect(code).to.equal(EXIT_CODES.SUCCESS);
+    const [submission] = relayer.requestsTo('submit-contract');
+    expect(submission.path).to.equal(`/swap/from-contract/${ENCODED}`);
+    expect(submission.body).to.deep.equal({ hash: TX_HASH });
+    expect(json).to.include({ ok: true, encoded: ENCODED, txHash: TX_HASH, swapId: ethers.keccak256(ENCODED) });
+
+    const [entry] = readLedger();
+    expect(entry).to.include({ swapId: json.swapId, txHash: TX_HASH });
+    expect(entry).to.not.have.property('error');
+  });
+
+  it('Should exit with the API code and keep the swap unnotified when the relayer rejects it', async function () {
+    relayer.fail('submit-contract', { status: 400, error: { code: -32602, message: 'Transaction not found' } });
+
+    const { code, json } = await submitContractSwap();
+
+    expect(code).to.equal(EXIT_CODES.API);
+    expect(json.error).to.include({ name: 'MesonApiError', httpStatus: 400 });
+    expect(relayer.requestsTo('submit-contract')).to.have.length(1);
+
+    const [entry] = readLedger();
+    expect(entry).to.not.have.property('swapId');
+    expect(entry.error).to.include('Transaction not found');
+  });
+});
@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { MockRelayer } from './helpers/mock-relayer';
+import { MesonApiService } from '../src/api';
+import { MesonApiError } from '../src/errors';
+import { backoffDelay, parseRetryAfter } from '../src/transport';
+
+describe('transport', function () {
+  const relayer = new MockRelayer(
+    [{ id: 'eth', name: 'Ethereum', chainId: '0x1', address: '0x25aB3Efd52e6470681CE037cD546Dc60726948D3', tokens: [{ id: 'usdc' }] }],
+    []
+  );
+  let apiUrl: string;
+
+  before(async function () {
+    apiUrl = await relayer.start();
+  });
+
+  after(async function () {
+    await relayer.stop();
+  });
+
+  beforeEach(function () {
+    relayer.reset();
+  });
+
+  function api(maxRetries: number, retryMaxDelayMs = 1000) {
+    return new MesonApiService(false, { baseUrl: apiUrl, maxRetries, retryBaseDelayMs: 10, retryMaxDelayMs });
+  }
+
+  describe('Retries', function () {
+    it('Should retry a read on transient statuses until it succeeds', async function () {
+      relayer.fail('list', { status: 502, times: 2 });
+
+      const chains = await api(2).getSupportedChains();
+
+      expect(chains.map(c => c.id)).to.deep.equal(['eth']);
+      expect(relayer.requestsTo('list')).to.have.length(3);
+    });
+
+    it('Should give up on a read after the configured retries', async function () {
+      relayer.fail('list', { status: 503 });
+
+      const error = await api(1).getSupportedChains().catch(e => e);
+
+      expect(error).to.be.instanceOf(MesonApiError);
+      expect(error.httpStatus).to.equal(503);
+      expect(relayer.requestsTo('list')).to.have.length(2);
+    });
+
+    it('Should not retry a relayer rejection', async function () {
+      relayer.fail('list', { status: 400, times: 1 });
+
+      const error = await api(3).getSupportedChains().catch(e => e);
+
+      expect(error).to.be.instanceOf(MesonApiError);
+      expect(relayer.requestsTo('list')).to.have.length(1);
+    });
+
+    it('Should wait for Retry-After before retrying', async function () {
+      relayer.fail('list', { status: 429, retryAfter: '1', times: 1 });
+
+      const started = Date.now();
+      await api(1, 5000).getSupportedChains();
+
+      expect(Date.now() - started).to.be.at.least(1000);
+      expect(relayer.requestsTo('list')).to.have.length(2);
+    });
+
+    it('Should cap Retry-After at the maximum delay', async function () {
+      relayer.fail('list', { status: 429, retryAfter: '60', times: 1 });
+
+      const started = Date.now();
+      await api(1, 200).getSupportedChains();
+
+      expect(Date.now() - started).to.be.below(5000);
+      expect(relayer.requestsTo('list')).to.have.length(2);
+    });
+  });
+
+  describe('parseRetryAfter', function () {
+    it('Should read delays in seconds and HTTP dates', function () {
+      const now = Date.parse('2024-05-01T12:00:00Z');
+
+      expect(parseRetryAfter('2', now)).to.equal(2000);
+      expect(parseRetryAfter('Wed, 01 May 2024 12:00:05 GMT', now)).to.equal(5000);
+      expect(parseRetryAfter('Wed, 01 May 2024 11:00:00 GMT', now)).to.equal(0);
+      expect(parseRetryAfter('soon', now)).to.equal(undefined);
+      expect(parseRetryAfter(undefined, now)).to.equal(undefined);
+    });
+  });
+
+  describe('backoffDelay', function () {
+    const random = Math.random;
+
+    afterEach(function () {
+      Math.random = random;
+    });
+
+    it('Should double the delay cap per attempt up to the maximum', function () {
+      Math.random = () => 0.999999;
+
+      expect(backoffDelay(0, 500, 30000)).to.equal(499);
+      expect(backoffDelay(2, 500, 30000)).to.equal(1999);
+      expect(backoffDelay(10, 500, 30000)).to.equal(29999);
+    });
+
+    it('Should pick a random delay below the cap', function () {
+      Math.random = () => 0;
+      expect(backoffDelay(3, 500, 30000)).to.equal(0);
+
+      Math.random = () => 0.5;
+      expect(backoffDelay(3, 500, 30000)).to.equal(2000);
+    });
+  });
+});